@@ -4,9 +4,18 @@ import {
   type MongoClientOptions,
   type ClientSession,
   type ClientSessionOptions,
+  type Document,
 } from "mongodb";
 import { CollectionProxy } from "../manager/collection-proxy";
-import type { Schema, ValidationMode, SchemaToCollectionProxy, FieldDefinition } from "../types";
+import { ChangeEventStream, schemaChangePipeline } from "../manager/change-stream";
+import type {
+  Schema,
+  ValidationMode,
+  SchemaToCollectionProxy,
+  FieldDefinition,
+  SchemaChangeEvent,
+  WatchOptions,
+} from "../types";
 import { syncSchemaIndexes } from "../kit/index";
 
 type AnySchema = Schema<string, Record<string, FieldDefinition>>;
@@ -39,7 +48,10 @@ export interface ServerlessClientConfig<TSchemas extends readonly AnySchema[]> {
    * Whether to sync indexes on connect (default: false for serverless)
    */
   syncIndexes?: boolean;
-  /** Validation mode: "strict" | "loose" | "off" (default: "strict") */
+  /**
+   * Validation mode: "strict" | "loose" | "off" (default: "strict").
+   * Schemas with their own `validation.mode` override this value.
+   */
   validation?: ValidationMode;
 }
 
@@ -70,7 +82,10 @@ export interface NodeClientConfig<TSchemas extends readonly AnySchema[]> {
    * Whether to sync indexes on connect (default: false)
    */
   syncIndexes?: boolean;
-  /** Validation mode: "strict" | "loose" | "off" (default: "strict") */
+  /**
+   * Validation mode: "strict" | "loose" | "off" (default: "strict").
+   * Schemas with their own `validation.mode` override this value.
+   */
   validation?: ValidationMode;
   /** MongoDB driver options (maxPoolSize, etc.) */
   options?: MongoClientOptions;
@@ -83,27 +98,32 @@ export type ClientConfig<TSchemas extends readonly AnySchema[]> =
   | ServerlessClientConfig<TSchemas>
   | NodeClientConfig<TSchemas>;
 
+// Extract schema names as a union type
+type SchemaNames<TSchemas extends readonly AnySchema[]> = TSchemas[number]["name"];
+
 // Client methods type
-type ClientMethods = {
+type ClientMethods<TSchemas extends readonly AnySchema[]> = {
   readonly close: () => Promise<void>;
   readonly getDb: () => Db;
   readonly startSession: (options?: ClientSessionOptions) => ClientSession;
+  readonly watchAll: <const TNames extends readonly SchemaNames<TSchemas>[]>(
+    names: TNames,
+    pipeline?: Document[],
+    options?: WatchOptions
+  ) => ChangeEventStream<SchemaChangeEvent<Extract<TSchemas[number], { name: TNames[number] }>>>;
 };
 
-// Extract schema names as a union type
-type SchemaNames<TSchemas extends readonly AnySchema[]> = TSchemas[number]["name"];
-
 // All valid keys for the client
 type ValidClientKeys<TSchemas extends readonly AnySchema[]> =
   | SchemaNames<TSchemas>
-  | keyof ClientMethods;
+  | keyof ClientMethods<TSchemas>;
 
 // Create a type that only allows access to valid keys
 export type SchemasToClient<TSchemas extends readonly AnySchema[]> = {
   readonly [K in ValidClientKeys<TSchemas>]: K extends SchemaNames<TSchemas>
-    ? SchemaToCollectionProxy<Extract<TSchemas[number], { name: K }>>
-    : K extends keyof ClientMethods
-      ? ClientMethods[K]
+    ? SchemaToCollectionProxy<Extract<TSchemas[number], { name: K }>, TSchemas>
+    : K extends keyof ClientMethods<TSchemas>
+      ? ClientMethods<TSchemas>[K]
       : never;
 };
 
@@ -118,6 +138,15 @@ function warnSyncIndexesDeprecated(): void {
   );
 }
 
+/**
+ * Resolves the validation mode for a schema.
+ * The schema's own config takes precedence over the client-wide mode.
+ */
+function resolveValidationMode(schema: Schema, clientMode: ValidationMode): ValidationMode {
+  if (schema.validation?.enabled === false) return "off";
+  return schema.validation?.mode ?? clientMode;
+}
+
 function createClientProxy<TSchemas extends readonly AnySchema[]>(
   client: MongoClient,
   db: Db,
@@ -131,6 +160,23 @@ function createClientProxy<TSchemas extends readonly AnySchema[]>(
     schemaMap.set(schema.name, schema);
   }
 
+  function getProxy(name: string): CollectionProxy<Schema> | undefined {
+    const schema = schemaMap.get(name);
+    if (!schema) return undefined;
+
+    let proxy = proxyCache.get(name);
+    if (!proxy) {
+      proxy = new CollectionProxy(
+        db,
+        schema,
+        resolveValidationMode(schema, validationMode),
+        getProxy
+      );
+      proxyCache.set(name, proxy);
+    }
+    return proxy;
+  }
+
   const baseClient = {
     async close() {
       await client.close();
@@ -141,6 +187,25 @@ function createClientProxy<TSchemas extends readonly AnySchema[]>(
     startSession(options?: ClientSessionOptions) {
       return client.startSession(options);
     },
+    // Watches several collections with a single database change stream
+    watchAll(names: readonly string[], pipeline: Document[] = [], options?: WatchOptions) {
+      if (names.length === 0) {
+        throw new Error("watchAll() needs at least one schema name");
+      }
+      const watched = names.map((name) => {
+        const schema = schemaMap.get(name);
+        if (!schema) {
+          throw new Error(`Cannot watch "${name}": no schema with this name is registered`);
+        }
+        return schema;
+      });
+      const { tokenStore, ...streamOptions } = options || {};
+      return new ChangeEventStream(
+        (openOptions) => db.watch([...schemaChangePipeline(watched), ...pipeline], openOptions),
+        streamOptions,
+        tokenStore
+      );
+    },
   };
 
   // Properties that should return undefined (not collections)
@@ -174,17 +239,7 @@ function createClientProxy<TSchemas extends readonly AnySchema[]>(
         return value;
       }
 
-      const schema = schemaMap.get(prop);
-      if (schema) {
-        let proxy = proxyCache.get(prop);
-        if (!proxy) {
-          proxy = new CollectionProxy(db, schema, validationMode);
-          proxyCache.set(prop, proxy);
-        }
-        return proxy;
-      }
-
-      return undefined;
+      return getProxy(prop);
     },
 
     has(target, prop: string | symbol) {
@@ -1,19 +1,35 @@
 // ============================================================
 // Core API - Schema Definition & Client
 // ============================================================
-export { schema, defineSchema, s } from "./schema";
+export {
+  schema,
+  defineSchema,
+  s,
+  extendSchema,
+  pickSchema,
+  omitSchema,
+  partialSchema,
+  mergeSchemas,
+} from "./schema";
 export { createClient } from "./client";
 export { syncSchemaIndexes, pullDatabaseSchema, manifestToMondelSchemaTs } from "./kit/index";
 
 // ============================================================
 // Validation Utilities
 // ============================================================
-export { zodSchema, zodCreateSchema, zodUpdateSchema, validate } from "./validation";
+export {
+  zodSchema,
+  zodCreateSchema,
+  zodUpdateSchema,
+  zodUpdateOperatorsSchema,
+  validate,
+  applyDefaults,
+} from "./validation";
 
 // ============================================================
 // Re-exports from MongoDB (ensures consistent BSON version)
 // ============================================================
-export { ObjectId } from "mongodb";
+export { ObjectId, Decimal128, Long, Binary, UUID } from "mongodb";
 
 // ============================================================
 // Type Exports
@@ -26,22 +42,67 @@ export type {
   IndexOptions,
   CompoundIndexDefinition,
   TimestampConfig,
+  SoftDeleteConfig,
+  FieldEffect,
+  SchemaRefinement,
+  GeoPosition,
+  GeoPoint,
+  GeoLineString,
+  GeoPolygon,
   ValidationConfig,
   // CRUD options
   FindOptions,
+  PaginateOptions,
+  PaginateResult,
+  PageInfo,
+  PageOptions,
+  PageResult,
   CreateOptions,
   CreateManyOptions,
+  CreateManyResult,
   UpdateOptions,
   DeleteOptions,
+  FindOneAndUpdateOptions,
+  FindOneAndReplaceOptions,
+  FindOneAndDeleteOptions,
+  ReplaceOptions,
+  UpsertOptions,
+  UpsertInput,
   CountOptions,
+  DistinctOptions,
+  SoftDeleteQueryOptions,
   AggregateOpts,
+  BulkWriteOperation,
+  BulkWriteOpts,
+  BulkWriteSummary,
+  UpsertManyOptions,
+  UpsertManyResult,
+  OperationError,
+  NearOptions,
+  WithinOptions,
+  GeoNearOptions,
+  // Change streams
+  WatchOptions,
+  ResumeTokenStore,
+  ChangeEvent,
+  ChangeUpdateEvent,
+  ChangeUpdateDescription,
+  UpdatedFields,
+  SchemaChangeEvent,
   // Type inference helpers
   InferSchemaType,
   CreateInput,
   UpdateInput,
+  MergeUpdateInput,
+  UpdateOperators,
   WhereInput,
   SelectInput,
   SortInput,
+  IncludeInput,
+  InferIncludeType,
+  InferSelectType,
+  FieldPath,
+  DistinctValue,
   // MongoDB types
   ClientSession,
 } from "./types";
@@ -63,3 +124,5 @@ export type {
 // Advanced/Internal - CollectionProxy for direct access
 // ============================================================
 export { CollectionProxy } from "./manager/collection-proxy";
+export { DocumentStream } from "./manager/document-stream";
+export { ChangeEventStream } from "./manager/change-stream";
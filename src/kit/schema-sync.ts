@@ -1,5 +1,5 @@
 import { Db, ObjectId, type CreateIndexesOptions, type Document, type IndexSpecification } from "mongodb";
-import { getFieldIndexes } from "../schema/define-schema";
+import { getFieldIndexes, isFieldNullable } from "../schema/define-schema";
 import type { FieldDefinition, Schema } from "../types";
 
 export interface SyncSchemaOptions {
@@ -140,7 +140,46 @@ function normalizeIndexes(schema: Schema): NormalizedIndex[] {
   return normalized;
 }
 
+const GEO_POSITION_BSON_SCHEMA: Document = {
+  bsonType: "array",
+  minItems: 2,
+  maxItems: 2,
+  items: { bsonType: ["double", "int", "long", "decimal"] },
+};
+
+function geoJsonBsonSchema(geometryType: string, coordinates: Document): Document {
+  return {
+    bsonType: "object",
+    required: ["type", "coordinates"],
+    properties: {
+      type: { enum: [geometryType] },
+      coordinates,
+    },
+  };
+}
+
+function allowNull(bsonSchema: Document): Document {
+  if (bsonSchema.bsonType === undefined) {
+    return bsonSchema;
+  }
+  if (bsonSchema.oneOf) {
+    return { anyOf: [bsonSchema, { bsonType: "null" }] };
+  }
+
+  const bsonTypes = Array.isArray(bsonSchema.bsonType) ? bsonSchema.bsonType : [bsonSchema.bsonType];
+  const result: Document = { ...bsonSchema, bsonType: [...bsonTypes, "null"] };
+  if (Array.isArray(bsonSchema.enum)) {
+    result.enum = [...bsonSchema.enum, null];
+  }
+  return result;
+}
+
 function mapFieldToBsonSchema(field: FieldDefinition): Document {
+  const bsonSchema = mapFieldTypeToBsonSchema(field);
+  return isFieldNullable(field) ? allowNull(bsonSchema) : bsonSchema;
+}
+
+function mapFieldTypeToBsonSchema(field: FieldDefinition): Document {
   switch (field.type) {
     case "string": {
       const result: Document = { bsonType: "string" };
@@ -156,12 +195,39 @@ function mapFieldToBsonSchema(field: FieldDefinition): Document {
       if (field.max !== undefined) result.maximum = field.max;
       return result;
     }
+    case "int": {
+      const result: Document = { bsonType: "int" };
+      if (field.min !== undefined) result.minimum = field.min;
+      if (field.max !== undefined) result.maximum = field.max;
+      return result;
+    }
+    case "long":
+      return { bsonType: "long" };
+    case "decimal":
+      return { bsonType: "decimal" };
     case "boolean":
       return { bsonType: "bool" };
     case "date":
       return { bsonType: "date" };
     case "objectId":
       return { bsonType: "objectId" };
+    case "binary":
+    case "uuid":
+      return { bsonType: "binData" };
+    case "point":
+      return geoJsonBsonSchema("Point", GEO_POSITION_BSON_SCHEMA);
+    case "lineString":
+      return geoJsonBsonSchema("LineString", {
+        bsonType: "array",
+        minItems: 2,
+        items: GEO_POSITION_BSON_SCHEMA,
+      });
+    case "polygon":
+      return geoJsonBsonSchema("Polygon", {
+        bsonType: "array",
+        minItems: 1,
+        items: { bsonType: "array", minItems: 4, items: GEO_POSITION_BSON_SCHEMA },
+      });
     case "array": {
       const result: Document = { bsonType: "array" };
       if (field.items) {
@@ -187,6 +253,27 @@ function mapFieldToBsonSchema(field: FieldDefinition): Document {
       if (required.length > 0) result.required = required;
       return result;
     }
+    case "union": {
+      const discriminator = field.discriminator ?? "type";
+      const oneOf = Object.entries(field.variants ?? {}).map(([tag, fields]) => {
+        const variant = mapFieldTypeToBsonSchema({
+          type: "object",
+          required: false,
+          unique: false,
+          properties: fields,
+        });
+        variant.properties[discriminator] = { enum: [tag] };
+        variant.required = [
+          discriminator,
+          ...((variant.required as string[] | undefined) ?? []).filter(
+            (name) => name !== discriminator
+          ),
+        ];
+        return variant;
+      });
+
+      return { bsonType: "object", oneOf };
+    }
     case "literal": {
       const literal = field.literal;
       const bsonType =
@@ -225,6 +312,10 @@ function schemaToMongoJsonSchema(schema: Schema): Document {
     properties[updatedAt] = { bsonType: "date" };
   }
 
+  if (schema.softDelete) {
+    properties[schema.softDelete.deletedAt ?? "deletedAt"] = { bsonType: ["date", "null"] };
+  }
+
   const jsonSchema: Document = {
     bsonType: "object",
     properties,
@@ -305,6 +396,28 @@ function isObjectIdLike(value: unknown): boolean {
     (typeof value === "object" && value !== null && "_bsontype" in value && (value as { _bsontype?: string })._bsontype === "ObjectId");
 }
 
+function bsonTypeOf(value: unknown): string | undefined {
+  if (typeof value === "object" && value !== null && "_bsontype" in value) {
+    return String((value as { _bsontype?: unknown })._bsontype);
+  }
+  return undefined;
+}
+
+function inferGeoJsonType(value: Record<string, unknown>): FieldDefinition["type"] | undefined {
+  if (!Array.isArray(value.coordinates)) return undefined;
+
+  switch (value.type) {
+    case "Point":
+      return "point";
+    case "LineString":
+      return "lineString";
+    case "Polygon":
+      return "polygon";
+    default:
+      return undefined;
+  }
+}
+
 function inferFieldDefinition(value: unknown): FieldDefinition {
   if (value === null || value === undefined) {
     return { type: "json", required: false, unique: false };
@@ -314,6 +427,21 @@ function inferFieldDefinition(value: unknown): FieldDefinition {
     return { type: "objectId", required: false, unique: false };
   }
 
+  switch (bsonTypeOf(value)) {
+    case "Decimal128":
+      return { type: "decimal", required: false, unique: false };
+    case "Long":
+      return { type: "long", required: false, unique: false };
+    case "Int32":
+      return { type: "int", required: false, unique: false };
+    case "Double":
+      return { type: "number", required: false, unique: false };
+    case "Binary":
+      return (value as { sub_type?: unknown }).sub_type === 4
+        ? { type: "uuid", required: false, unique: false }
+        : { type: "binary", required: false, unique: false };
+  }
+
   if (value instanceof Date) {
     return { type: "date", required: false, unique: false };
   }
@@ -341,6 +469,11 @@ function inferFieldDefinition(value: unknown): FieldDefinition {
   }
 
   if (typeof value === "object") {
+    const geometry = inferGeoJsonType(value as Record<string, unknown>);
+    if (geometry) {
+      return { type: geometry, required: false, unique: false };
+    }
+
     const properties: Record<string, FieldDefinition> = {};
     for (const [key, nested] of Object.entries(value as Record<string, unknown>)) {
       properties[key] = inferFieldDefinition(nested);
@@ -359,7 +492,8 @@ export async function pullDatabaseSchema(db: Db): Promise<PulledSchemaManifest>
   for (const collectionMeta of collections) {
     const collectionName = collectionMeta.name;
     const collection = db.collection(collectionName);
-    const sample = await collection.findOne({});
+    // Keep Int32, Double and Long values wrapped so their BSON types can be told apart
+    const sample = await collection.findOne({}, { promoteValues: false });
     const fields: Record<string, FieldDefinition> = {};
 
     if (sample && typeof sample === "object") {
@@ -417,6 +551,22 @@ function renderField(field: FieldDefinition): string {
     }
     case "number":
       return `s.number()${field.required ? ".required()" : ""}`;
+    case "int":
+      return `s.int()${field.required ? ".required()" : ""}`;
+    case "long":
+      return `s.long()${field.required ? ".required()" : ""}`;
+    case "decimal":
+      return `s.decimal()${field.required ? ".required()" : ""}`;
+    case "binary":
+      return `s.binary()${field.required ? ".required()" : ""}`;
+    case "uuid":
+      return `s.uuid()${field.required ? ".required()" : ""}`;
+    case "point":
+      return `s.point()${field.required ? ".required()" : ""}`;
+    case "lineString":
+      return `s.lineString()${field.required ? ".required()" : ""}`;
+    case "polygon":
+      return `s.polygon()${field.required ? ".required()" : ""}`;
     case "boolean":
       return `s.boolean()${field.required ? ".required()" : ""}`;
     case "date":
@@ -433,6 +583,17 @@ function renderField(field: FieldDefinition): string {
     }
     case "literal":
       return `s.literal(${JSON.stringify(field.literal)})${field.required ? ".required()" : ""}`;
+    case "union": {
+      const variants = Object.entries(field.variants ?? {})
+        .map(([tag, fields]) => {
+          const properties = Object.entries(fields)
+            .map(([name, value]) => `        ${JSON.stringify(name)}: ${renderField(value)},`)
+            .join("\n");
+          return `      ${JSON.stringify(tag)}: {\n${properties}\n      },`;
+        })
+        .join("\n");
+      return `s.union(${JSON.stringify(field.discriminator ?? "type")}, {\n${variants}\n    })${field.required ? ".required()" : ""}`;
+    }
     case "json":
     default:
       return `s.json()${field.required ? ".required()" : ""}`;
@@ -0,0 +1,130 @@
+import type { ChangeStream, ChangeStreamOptions, Document, ResumeToken } from "mongodb";
+import type { ResumeTokenStore, Schema } from "../types";
+
+/**
+ * Async iterable over the change events of one or more collections.
+ * Every iteration opens a new change stream, which is closed when the loop ends, breaks or throws.
+ *
+ * With a `tokenStore`, the stream resumes after the last saved token and saves the token
+ * of each event once the loop body has processed it, so a restart never skips an event.
+ * When the loop exits early (`break`, `return` or a thrown error), the token of the event
+ * it was processing is saved as well, so the next iteration does not deliver it again.
+ *
+ * @template T - The change event type
+ *
+ * @example
+ * ```typescript
+ * for await (const event of db.users.watch([], { tokenStore })) {
+ *   if (event.operationType === "insert") {
+ *     await sendWelcomeEmail(event.fullDocument.email);
+ *   }
+ * }
+ * ```
+ */
+export class ChangeEventStream<T extends Document> implements AsyncIterable<T> {
+  private open: (options: ChangeStreamOptions) => ChangeStream<Document, T>;
+  private options: ChangeStreamOptions;
+  private tokenStore?: ResumeTokenStore;
+  private streams = new Set<ChangeStream<Document, T>>();
+  private closing = new Set<ChangeStream<Document, T>>();
+
+  /**
+   * @param open - Opens a new change stream with the given driver options
+   * @param options - Driver change stream options
+   * @param tokenStore - Loads and saves resume tokens
+   */
+  constructor(
+    open: (options: ChangeStreamOptions) => ChangeStream<Document, T>,
+    options: ChangeStreamOptions = {},
+    tokenStore?: ResumeTokenStore
+  ) {
+    this.open = open;
+    this.options = options;
+    this.tokenStore = tokenStore;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    const stream = this.open(await this.resumeOptions());
+    this.streams.add(stream);
+    // Token of the event handed to the loop body, until it is saved
+    let delivered: ResumeToken | undefined;
+    try {
+      for await (const event of stream) {
+        delivered = event._id as ResumeToken;
+        yield event;
+        delivered = undefined;
+        await this.saveToken(event._id as ResumeToken);
+      }
+    } catch (error) {
+      // Closing a stream while it waits for the next event rejects that wait
+      if (!this.closing.has(stream)) throw error;
+    } finally {
+      this.streams.delete(stream);
+      this.closing.delete(stream);
+      try {
+        // The loop ended while processing an event
+        if (delivered !== undefined) await this.saveToken(delivered);
+      } finally {
+        await stream.close();
+      }
+    }
+  }
+
+  /**
+   * Closes the change streams opened by running loops, which then end after their current event.
+   */
+  async close(): Promise<void> {
+    await Promise.all(
+      [...this.streams].map((stream) => {
+        this.closing.add(stream);
+        return stream.close();
+      })
+    );
+  }
+
+  private async saveToken(token: ResumeToken): Promise<void> {
+    if (this.tokenStore) {
+      await this.tokenStore.save(token);
+    }
+  }
+
+  /** A saved token takes precedence over the start options, which are mutually exclusive. */
+  private async resumeOptions(): Promise<ChangeStreamOptions> {
+    const token = await this.tokenStore?.load();
+    if (token === undefined || token === null) return this.options;
+
+    const {
+      resumeAfter: _resumeAfter,
+      startAfter: _startAfter,
+      startAtOperationTime: _startAtOperationTime,
+      ...options
+    } = this.options;
+    void _resumeAfter;
+    void _startAfter;
+    void _startAtOperationTime;
+    return { ...options, resumeAfter: token };
+  }
+}
+
+/**
+ * Stages restricting a database change stream to the collections of some schemas,
+ * tagging each event with the name of its schema.
+ */
+export function schemaChangePipeline(schemas: Schema[]): Document[] {
+  return [
+    { $match: { "ns.coll": { $in: schemas.map((schema) => schema.collection) } } },
+    {
+      $addFields: {
+        schema: {
+          $switch: {
+            branches: schemas.map((schema) => ({
+              case: { $eq: ["$ns.coll", schema.collection] },
+              then: schema.name,
+            })),
+            default: null,
+          },
+        },
+      },
+    },
+  ];
+}
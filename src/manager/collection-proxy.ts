@@ -1,30 +1,112 @@
 import {
+  BSON,
+  MongoBulkWriteError,
   ObjectId,
+  type AnyBulkWriteOperation,
+  type BulkWriteOptions as MongoBulkWriteOptions,
+  type BulkWriteResult as MongoBulkWriteResult,
+  type ChangeStreamDocument,
+  type ClientSession,
   type Collection,
   type Db,
   type Document,
   type Filter,
+  type FindCursor,
   type FindOptions as MongoFindOptions,
+  type FindOneAndUpdateOptions as MongoFindOneAndUpdateOptions,
+  type FindOneAndDeleteOptions as MongoFindOneAndDeleteOptions,
+  type Sort,
   type UpdateFilter,
   type OptionalUnlessRequiredId,
   type WithId,
   type InsertOneResult,
-  type InsertManyResult,
   type UpdateResult,
   type DeleteResult,
-  type CountDocumentsOptions,
   type AggregateOptions,
 } from "mongodb";
+import { ZodError } from "zod";
 import type {
   Schema,
   FindOptions,
   CreateOptions,
   CreateManyOptions,
+  CreateManyResult,
   UpdateOptions,
   DeleteOptions,
+  FindOneAndUpdateOptions,
+  FindOneAndReplaceOptions,
+  FindOneAndDeleteOptions,
+  ReplaceOptions,
+  UpsertOptions,
+  BulkWriteOpts,
+  BulkWriteSummary,
+  OperationError,
+  UpsertManyOptions,
+  UpsertManyResult,
+  CountOptions,
+  DistinctOptions,
+  SoftDeleteQueryOptions,
+  GeoPoint,
+  GeoPolygon,
+  NearOptions,
+  WithinOptions,
+  PaginateOptions,
+  PaginateResult,
+  PageInfo,
+  PageOptions,
+  PageResult,
+  GeoNearOptions,
   ValidationMode,
+  WatchOptions,
 } from "../types";
-import { zodCreateSchema, zodUpdateSchema } from "../validation/zod-schema";
+import {
+  zodCreateSchema,
+  zodUpdateSchema,
+  zodUpdateOperatorsSchema,
+} from "../validation/zod-schema";
+import { applyDefaults, isPlainObject } from "../validation/defaults";
+import { applyTransforms, applyUpdateTransforms } from "../validation/transforms";
+import {
+  DEFAULT_PAGE_SIZE,
+  decodeCursor,
+  encodeCursor,
+  keysetFilter,
+  projectSortKeys,
+  reverseSortKeys,
+  toSort,
+  toSortKeys,
+  unsetPathValue,
+} from "./pagination";
+import { DocumentStream } from "./document-stream";
+import { ChangeEventStream } from "./change-stream";
+
+// Default number of documents per write in batch operations
+const DEFAULT_CHUNK_SIZE = 1000;
+
+/** Serializes a value with its BSON types, so equal values compare equal as strings. */
+function toComparable(value: unknown): string {
+  return BSON.EJSON.stringify(value ?? null, { relaxed: false });
+}
+
+// Options that shape the update document built by `buildUpdate`
+type UpdateBuildOptions = Pick<UpdateOptions, "upsert" | "timestamps" | "validate" | "merge">;
+
+/**
+ * Flattens nested plain objects into dot-notation paths for a merging `$set`.
+ * Arrays, Dates, ObjectIds and other BSON values are kept as whole values.
+ */
+function toDotPaths(data: Document, prefix = ""): Document {
+  const paths: Document = {};
+  for (const [key, value] of Object.entries(data)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      Object.assign(paths, toDotPaths(value, path));
+    } else {
+      paths[path] = value;
+    }
+  }
+  return paths;
+}
 
 /**
  * Type-safe collection proxy for MongoDB operations.
@@ -43,46 +125,78 @@ export class CollectionProxy<TSchema extends Schema> {
   private collection: Collection<Document>;
   private schema: TSchema;
   private validationMode: ValidationMode;
+  private resolveProxy?: (name: string) => CollectionProxy<Schema> | undefined;
 
-  constructor(db: Db, schema: TSchema, validationMode: ValidationMode = "strict") {
+  constructor(
+    db: Db,
+    schema: TSchema,
+    validationMode: ValidationMode = "strict",
+    resolveProxy?: (name: string) => CollectionProxy<Schema> | undefined
+  ) {
     this.collection = db.collection(schema.collection);
     this.schema = schema;
     this.validationMode = validationMode;
+    this.resolveProxy = resolveProxy;
   }
 
-  private validateCreate(data: Document): void {
-    if (this.validationMode === "off") return;
+  /**
+   * Validates create data and returns the document to persist.
+   * Field transforms are applied in every validation mode, and keys outside the schema are kept.
+   */
+  private validateCreate<T extends Document>(
+    data: T,
+    mode: ValidationMode = this.validationMode
+  ): T {
+    if (mode === "off") return applyTransforms(this.schema, data);
 
     const zodSchema = zodCreateSchema(this.schema);
     const result = zodSchema.safeParse(data);
 
     if (!result.success) {
-      if (this.validationMode === "strict") {
+      if (mode === "strict") {
         throw result.error;
       }
       console.warn(`Validation warning: ${result.error.message}`);
+      return applyTransforms(this.schema, data);
     }
+    return result.data as T;
   }
 
-  private validateUpdate(data: Document): void {
-    if (this.validationMode === "off") return;
+  /**
+   * Validates update data (plain fields or operators) and returns the update to persist.
+   * Field transforms are applied in every validation mode, and keys outside the schema are kept.
+   */
+  private validateUpdate<T extends Document>(
+    data: T,
+    hasOperators: boolean,
+    mode: ValidationMode = this.validationMode
+  ): T {
+    const transform = (input: T) =>
+      hasOperators
+        ? applyUpdateTransforms(this.schema, input)
+        : applyTransforms(this.schema, input);
+    if (mode === "off") return transform(data);
 
-    const zodSchema = zodUpdateSchema(this.schema);
+    const zodSchema = hasOperators
+      ? zodUpdateOperatorsSchema(this.schema, data)
+      : zodUpdateSchema(this.schema);
     const result = zodSchema.safeParse(data);
 
     if (!result.success) {
-      if (this.validationMode === "strict") {
+      if (mode === "strict") {
         throw result.error;
       }
       console.warn(`Validation warning: ${result.error.message}`);
+      return transform(data);
     }
+    return result.data as T;
   }
 
   /**
    * Find a single document matching the filter.
    *
    * @param where - MongoDB filter query
-   * @param options - Find options (select, sort, skip, limit, session)
+   * @param options - Find options (select, sort, include, session, withDeleted, onlyDeleted)
    * @returns The matching document or null
    *
    * @example
@@ -101,6 +215,15 @@ export class CollectionProxy<TSchema extends Schema> {
    *   { email: "john@example.com" },
    *   { session }
    * );
+   *
+   * // Include soft-deleted documents
+   * const user = await db.users.findOne(
+   *   { email: "john@example.com" },
+   *   { withDeleted: true }
+   * );
+   *
+   * // Resolve a reference field into its document
+   * const post = await db.posts.findOne({ slug: "hello" }, { include: { author: true } });
    * ```
    */
   async findOne(
@@ -116,17 +239,23 @@ export class CollectionProxy<TSchema extends Schema> {
       mongoOptions.projection = options.select as Document;
     }
     if (options?.sort) {
-      mongoOptions.sort = options.sort;
+      mongoOptions.sort = options.sort as Sort;
     }
 
-    return this.collection.findOne(where, mongoOptions);
+    const doc = await this.collection.findOne(
+      this.applySoftDeleteScope(where, options),
+      mongoOptions
+    );
+    if (!doc || !options?.include) return doc;
+    const [resolved] = await this.resolveIncludes([doc], options.include, options.session);
+    return resolved ?? null;
   }
 
   /**
    * Find multiple documents matching the filter.
    *
    * @param where - MongoDB filter query (optional, defaults to {})
-   * @param options - Find options (select, sort, skip, limit, session)
+   * @param options - Find options (select, sort, skip, limit, include, session, withDeleted, onlyDeleted)
    * @returns Array of matching documents
    *
    * @example
@@ -156,34 +285,49 @@ export class CollectionProxy<TSchema extends Schema> {
     where: Filter<Document> = {},
     options?: FindOptions<TSchema>
   ): Promise<WithId<Document>[]> {
-    const mongoOptions: MongoFindOptions = {};
-    if (options?.session) {
-      mongoOptions.session = options.session;
-    }
-
-    let cursor = this.collection.find(where, mongoOptions);
-
-    if (options?.select) {
-      cursor = cursor.project(options.select as Document);
-    }
-    if (options?.sort) {
-      cursor = cursor.sort(options.sort);
-    }
-    if (options?.skip !== undefined) {
-      cursor = cursor.skip(options.skip);
-    }
-    if (options?.limit !== undefined) {
-      cursor = cursor.limit(options.limit);
-    }
+    const docs = await this.findCursor(where, options).toArray();
+    if (!options?.include) return docs;
+    return this.resolveIncludes(docs, options.include, options.session);
+  }
 
-    return cursor.toArray();
+  /**
+   * Stream the documents matching the filter instead of loading them all into memory.
+   * The cursor is opened when iteration starts and closed when the loop ends or breaks early.
+   *
+   * @param where - MongoDB filter query (optional, defaults to {})
+   * @param options - Find options (select, sort, skip, limit, batchSize, include, session, withDeleted, onlyDeleted)
+   * @returns An async iterable of documents, with a `batches(size)` helper for chunked processing
+   *
+   * @example
+   * ```typescript
+   * // One document at a time, fetched from the server 1000 at a time
+   * for await (const user of db.users.iterate({ isActive: true }, { batchSize: 1000 })) {
+   *   await reindex(user);
+   * }
+   *
+   * // Arrays of up to 500 documents
+   * for await (const users of db.users.iterate({}, { sort: { _id: 1 } }).batches(500)) {
+   *   await exportRows(users);
+   * }
+   * ```
+   */
+  iterate(
+    where: Filter<Document> = {},
+    options?: FindOptions<TSchema>
+  ): DocumentStream<WithId<Document>> {
+    const include = options?.include;
+    return new DocumentStream(
+      () => this.findCursor(where, options),
+      include ? (docs) => this.resolveIncludes(docs, include, options?.session) : undefined,
+      options?.batchSize
+    );
   }
 
   /**
    * Find a document by its _id.
    *
    * @param id - ObjectId or string representation
-   * @param options - Find options (select, session)
+   * @param options - Find options (select, include, session, withDeleted, onlyDeleted)
    * @returns The matching document or null
    *
    * @example
@@ -205,22 +349,194 @@ export class CollectionProxy<TSchema extends Schema> {
     options?: FindOptions<TSchema>
   ): Promise<WithId<Document> | null> {
     const objectId = this.parseObjectId(id);
-    const mongoOptions: MongoFindOptions = { ...options };
+    const {
+      withDeleted: _withDeleted,
+      onlyDeleted: _onlyDeleted,
+      include,
+      ...findOptions
+    } = options || {};
+    void _withDeleted;
+    void _onlyDeleted;
+    const mongoOptions = { ...findOptions } as MongoFindOptions;
 
     if (options?.select) {
       mongoOptions.projection = options.select as Document;
       delete (mongoOptions as Record<string, unknown>).select;
     }
 
-    return this.collection.findOne({ _id: objectId }, mongoOptions);
+    const doc = await this.collection.findOne(
+      this.applySoftDeleteScope({ _id: objectId }, options),
+      mongoOptions
+    );
+    if (!doc || !include) return doc;
+    const [resolved] = await this.resolveIncludes([doc], include, options?.session);
+    return resolved ?? null;
+  }
+
+  /**
+   * Page through documents with keyset (cursor) pagination.
+   * Unlike `skip`, the cost of a page does not grow with its position. Cursors are opaque
+   * and encode the sort key values of a document plus its `_id` as the tie-breaker.
+   *
+   * @param where - MongoDB filter query (optional, defaults to {})
+   * @param options - Paginate options (first, after, last, before, sort, select, include, session, withDeleted, onlyDeleted)
+   * @returns The page items and its page info (hasNextPage, hasPreviousPage, startCursor, endCursor)
+   *
+   * @example
+   * ```typescript
+   * // First page, newest first
+   * const page = await db.posts.paginate({ published: true }, { sort: { createdAt: -1 }, first: 20 });
+   *
+   * // Next page
+   * const next = await db.posts.paginate(
+   *   { published: true },
+   *   { sort: { createdAt: -1 }, first: 20, after: page.pageInfo.endCursor }
+   * );
+   *
+   * // Previous page
+   * const previous = await db.posts.paginate(
+   *   { published: true },
+   *   { sort: { createdAt: -1 }, last: 20, before: next.pageInfo.startCursor }
+   * );
+   * ```
+   */
+  async paginate(
+    where: Filter<Document> = {},
+    options?: PaginateOptions<TSchema>
+  ): Promise<PaginateResult<WithId<Document>>> {
+    const { first, after, last, before, sort, select, include, session } = options || {};
+    const backward = last !== undefined || Boolean(before);
+    if (backward && (first !== undefined || Boolean(after))) {
+      throw new Error("paginate() accepts either first/after or last/before, not both");
+    }
+    const size = (backward ? last : first) ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(size) || size < 0) {
+      throw new Error("paginate() page size must be a non-negative integer");
+    }
+
+    const sortKeys = toSortKeys(sort as Document | undefined);
+    // Backward pages are read in reverse order and flipped afterwards
+    const querySortKeys = backward ? reverseSortKeys(sortKeys) : sortKeys;
+    const cursor = backward ? before : after;
+
+    let filter = this.applySoftDeleteScope(where, options);
+    if (cursor) {
+      filter = { $and: [filter, keysetFilter(querySortKeys, decodeCursor(cursor, sortKeys))] };
+    }
+
+    const mongoOptions: MongoFindOptions = { sort: toSort(querySortKeys), limit: size + 1 };
+    if (session) {
+      mongoOptions.session = session;
+    }
+    const { projection, hidden } = projectSortKeys((select as Document) ?? {}, sortKeys);
+    if (select) {
+      mongoOptions.projection = projection;
+    }
+
+    const docs = await this.collection.find(filter, mongoOptions).toArray();
+    const hasMore = docs.length > size;
+    const items = docs.slice(0, size);
+    if (backward) items.reverse();
+
+    const firstItem = items[0];
+    const lastItem = items[items.length - 1];
+    const pageInfo: PageInfo = {
+      hasNextPage: backward ? Boolean(before) : hasMore,
+      hasPreviousPage: backward ? hasMore : Boolean(after),
+      startCursor: firstItem ? encodeCursor(firstItem, sortKeys) : null,
+      endCursor: lastItem ? encodeCursor(lastItem, sortKeys) : null,
+    };
+
+    for (const item of items) {
+      for (const path of hidden) unsetPathValue(item, path);
+    }
+    if (!include) return { items, pageInfo };
+    return { items: await this.resolveIncludes(items, include, session), pageInfo };
+  }
+
+  /**
+   * Find one page of documents together with the total count of matches.
+   * Runs a single `$facet` aggregation, so the items and the total come from the same snapshot.
+   *
+   * @param where - MongoDB filter query (optional, defaults to {})
+   * @param options - Page options (page, perPage, sort, select, include, collation, session, withDeleted, onlyDeleted)
+   * @returns The page items with total, page, perPage and pageCount
+   *
+   * @example
+   * ```typescript
+   * const { items, total, pageCount } = await db.users.page(
+   *   { role: "ADMIN" },
+   *   { page: 2, perPage: 25, sort: { createdAt: -1 } }
+   * );
+   * ```
+   */
+  async page(
+    where: Filter<Document> = {},
+    options?: PageOptions<TSchema>
+  ): Promise<PageResult<WithId<Document>>> {
+    const {
+      page = 1,
+      perPage = DEFAULT_PAGE_SIZE,
+      sort,
+      select,
+      include,
+      session,
+      collation,
+    } = options || {};
+    if (!Number.isInteger(page) || page < 1) {
+      throw new Error("page() page must be a positive integer");
+    }
+    if (!Number.isInteger(perPage) || perPage < 1) {
+      throw new Error("page() perPage must be a positive integer");
+    }
+
+    const itemsPipeline: Document[] = [];
+    if (sort) {
+      itemsPipeline.push({ $sort: sort });
+    }
+    itemsPipeline.push({ $skip: (page - 1) * perPage }, { $limit: perPage });
+    if (select) {
+      itemsPipeline.push({ $project: select });
+    }
+
+    const aggregateOptions: AggregateOptions = {};
+    if (session) {
+      aggregateOptions.session = session;
+    }
+    if (collation) {
+      aggregateOptions.collation = collation;
+    }
+
+    const [result] = await this.collection
+      .aggregate<{
+        items: WithId<Document>[];
+        total: { count: number }[];
+      }>(
+        [
+          { $match: this.applySoftDeleteScope(where, options) },
+          { $facet: { items: itemsPipeline, total: [{ $count: "count" }] } },
+        ],
+        aggregateOptions
+      )
+      .toArray();
+    const items = result?.items ?? [];
+    const total = result?.total[0]?.count ?? 0;
+
+    return {
+      items: include ? await this.resolveIncludes(items, include, session) : items,
+      total,
+      page,
+      perPage,
+      pageCount: Math.ceil(total / perPage),
+    };
   }
 
   /**
    * Create a new document.
-   * Automatically adds timestamps if enabled in schema.
+   * Fills in field defaults and adds timestamps if enabled in schema.
    *
    * @param data - Document data (validated against schema)
-   * @param options - Create options (timestamps, session)
+   * @param options - Create options (timestamps, validate, session)
    * @returns Insert result with insertedId
    *
    * @example
@@ -236,6 +552,9 @@ export class CollectionProxy<TSchema extends Schema> {
    * // Disable automatic timestamps
    * await db.users.create(userData, { timestamps: false });
    *
+   * // Skip validation for trusted input
+   * await db.users.create(userData, { validate: "off" });
+   *
    * // With session (for transactions)
    * await db.users.create(userData, { session });
    * ```
@@ -244,20 +563,26 @@ export class CollectionProxy<TSchema extends Schema> {
     data: OptionalUnlessRequiredId<Document>,
     options?: CreateOptions
   ): Promise<InsertOneResult> {
-    this.validateCreate(data);
-    const doc = this.applyTimestamps(data, "create", options?.timestamps);
-    const { timestamps: _timestamps, ...mongoOptions } = options || {};
+    const validated = this.validateCreate(applyDefaults(this.schema, data), options?.validate);
+    const doc = this.applyTimestamps(validated, "create", options?.timestamps);
+    const { timestamps: _timestamps, validate: _validate, ...mongoOptions } = options || {};
     void _timestamps;
+    void _validate;
     return this.collection.insertOne(doc, mongoOptions);
   }
 
   /**
-   * Create multiple documents in a single operation.
-   * Automatically adds timestamps if enabled in schema.
+   * Create multiple documents, sent in chunks of `insertMany`.
+   * Fills in field defaults and adds timestamps if enabled in schema.
+   *
+   * Every document is validated before anything is written. An invalid document throws,
+   * unless `continueOnValidationError` is set: it is then skipped and listed in `errors`.
+   * With `ordered: false`, write errors (e.g. duplicate keys) are listed in `errors` too,
+   * and the remaining documents are still inserted.
    *
    * @param data - Array of document data
-   * @param options - Create options (timestamps, ordered, session)
-   * @returns Insert result with insertedIds
+   * @param options - Create options (timestamps, validate, ordered, chunkSize, continueOnValidationError, session)
+   * @returns Insert result with insertedIds by input index, and the per-document errors
    *
    * @example
    * ```typescript
@@ -269,6 +594,16 @@ export class CollectionProxy<TSchema extends Schema> {
    * ]);
    * console.log(result.insertedIds); // { 0: ObjectId, 1: ObjectId, 2: ObjectId }
    *
+   * // Trusted bulk import without validation
+   * await db.events.createMany(importedEvents, { validate: "off" });
+   *
+   * // Import what can be imported and report the rest
+   * const { insertedIds, errors } = await db.users.createMany(rows, {
+   *   ordered: false,
+   *   continueOnValidationError: true,
+   *   chunkSize: 500,
+   * });
+   *
    * // With session (for transactions)
    * await db.users.createMany(usersData, { session });
    * ```
@@ -276,23 +611,77 @@ export class CollectionProxy<TSchema extends Schema> {
   async createMany(
     data: OptionalUnlessRequiredId<Document>[],
     options?: CreateManyOptions
-  ): Promise<InsertManyResult> {
-    for (const item of data) {
-      this.validateCreate(item);
+  ): Promise<CreateManyResult> {
+    const {
+      timestamps,
+      validate,
+      ordered = true,
+      chunkSize = DEFAULT_CHUNK_SIZE,
+      continueOnValidationError = false,
+      ...mongoOptions
+    } = options || {};
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+      throw new Error("createMany() chunkSize must be a positive integer");
     }
-    const docs = data.map((d) => this.applyTimestamps(d, "create", options?.timestamps));
-    const { timestamps: _timestamps, ...mongoOptions } = options || {};
-    void _timestamps;
-    return this.collection.insertMany(docs, mongoOptions);
+
+    const errors: OperationError[] = [];
+    const prepared: { index: number; doc: Document }[] = [];
+    data.forEach((item, index) => {
+      try {
+        const validated = this.validateCreate(applyDefaults(this.schema, item), validate);
+        prepared.push({ index, doc: this.applyTimestamps(validated, "create", timestamps) });
+      } catch (error) {
+        if (!continueOnValidationError || !(error instanceof ZodError)) throw error;
+        errors.push({ index, error });
+      }
+    });
+
+    const result: CreateManyResult = {
+      acknowledged: true,
+      insertedCount: 0,
+      insertedIds: {},
+      errors,
+    };
+    for (let start = 0; start < prepared.length; start += chunkSize) {
+      const chunk = prepared.slice(start, start + chunkSize);
+      let inserted: { insertedCount: number; insertedIds: Record<number, ObjectId> };
+      try {
+        inserted = await this.collection.insertMany(
+          chunk.map(({ doc }) => doc),
+          { ...mongoOptions, ordered }
+        );
+      } catch (error) {
+        if (ordered || !(error instanceof MongoBulkWriteError)) throw error;
+        inserted = error;
+        const writeErrors = Array.isArray(error.writeErrors)
+          ? error.writeErrors
+          : [error.writeErrors];
+        for (const writeError of writeErrors) {
+          errors.push({
+            index: chunk[writeError.index]?.index ?? writeError.index,
+            error: writeError,
+          });
+        }
+      }
+
+      result.insertedCount += inserted.insertedCount;
+      for (const [position, id] of Object.entries(inserted.insertedIds)) {
+        result.insertedIds[chunk[Number(position)]?.index ?? Number(position)] = id;
+      }
+    }
+
+    errors.sort((a, b) => a.index - b.index);
+    return result;
   }
 
   /**
    * Update a single document matching the filter.
    * Supports both simple updates and MongoDB update operators.
+   * On upsert, field defaults are added to `$setOnInsert`.
    *
    * @param where - MongoDB filter query
    * @param data - Update data or MongoDB update operators ($set, $inc, etc.)
-   * @param options - Update options (upsert, timestamps, session)
+   * @param options - Update options (upsert, timestamps, validate, merge, session)
    * @returns Update result with matchedCount, modifiedCount, upsertedId
    *
    * @example
@@ -325,24 +714,27 @@ export class CollectionProxy<TSchema extends Schema> {
     data: Document,
     options?: UpdateOptions
   ): Promise<UpdateResult> {
-    // Only validate if data is a plain update object (not using operators like $set)
-    const hasOperators = Object.keys(data).some((k) => k.startsWith("$"));
-    if (!hasOperators) {
-      this.validateUpdate(data);
-    }
-    const update = this.applyUpdateTimestamps(data, hasOperators, options);
-    const { timestamps: _timestamps, ...mongoOptions } = options || {};
+    const update = this.buildUpdate(where, data, options);
+    const {
+      timestamps: _timestamps,
+      validate: _validate,
+      merge: _merge,
+      ...mongoOptions
+    } = options || {};
     void _timestamps;
-    return this.collection.updateOne(where, update as UpdateFilter<Document>, mongoOptions);
+    void _validate;
+    void _merge;
+    return this.collection.updateOne(where, update, mongoOptions);
   }
 
   /**
    * Update multiple documents matching the filter.
    * Supports both simple updates and MongoDB update operators.
+   * On upsert, field defaults are added to `$setOnInsert`.
    *
    * @param where - MongoDB filter query
    * @param data - Update data or MongoDB update operators
-   * @param options - Update options (upsert, timestamps, session)
+   * @param options - Update options (upsert, timestamps, validate, merge, session)
    * @returns Update result with matchedCount, modifiedCount
    *
    * @example
@@ -365,14 +757,17 @@ export class CollectionProxy<TSchema extends Schema> {
     data: Document,
     options?: UpdateOptions
   ): Promise<UpdateResult> {
-    const hasOperators = Object.keys(data).some((k) => k.startsWith("$"));
-    if (!hasOperators) {
-      this.validateUpdate(data);
-    }
-    const update = this.applyUpdateTimestamps(data, hasOperators, options);
-    const { timestamps: _timestamps, ...mongoOptions } = options || {};
+    const update = this.buildUpdate(where, data, options);
+    const {
+      timestamps: _timestamps,
+      validate: _validate,
+      merge: _merge,
+      ...mongoOptions
+    } = options || {};
     void _timestamps;
-    return this.collection.updateMany(where, update as UpdateFilter<Document>, mongoOptions);
+    void _validate;
+    void _merge;
+    return this.collection.updateMany(where, update, mongoOptions);
   }
 
   /**
@@ -381,7 +776,7 @@ export class CollectionProxy<TSchema extends Schema> {
    *
    * @param id - ObjectId or string representation
    * @param data - Update data or MongoDB update operators
-   * @param options - Update options (upsert, timestamps, session)
+   * @param options - Update options (upsert, timestamps, validate, merge, session)
    * @returns Update result with matchedCount, modifiedCount
    *
    * @example
@@ -405,11 +800,306 @@ export class CollectionProxy<TSchema extends Schema> {
     return this.updateOne({ _id: objectId }, data, options);
   }
 
+  /**
+   * Replace a single document matching the filter.
+   * The replacement is validated as a full document and gets field defaults. When timestamps are
+   * enabled, `updatedAt` is refreshed and the stored `createdAt` is kept (set on upsert).
+   * Soft-deleted documents never match the filter.
+   *
+   * @param where - MongoDB filter query
+   * @param data - The full replacement document
+   * @param options - Replace options (upsert, timestamps, validate, session)
+   * @returns Update result with matchedCount, modifiedCount
+   *
+   * @example
+   * ```typescript
+   * await db.users.replaceOne(
+   *   { email: "john@example.com" },
+   *   { email: "john@example.com", name: "John Doe", role: "USER" }
+   * );
+   * ```
+   */
+  async replaceOne(
+    where: Filter<Document>,
+    data: Document,
+    options?: ReplaceOptions
+  ): Promise<UpdateResult> {
+    const replacement = this.buildReplacement(data, options);
+    const filter = this.applySoftDeleteScope(where);
+    const { timestamps: _timestamps, validate: _validate, ...mongoOptions } = options || {};
+    void _timestamps;
+    void _validate;
+    if (Array.isArray(replacement)) {
+      return this.collection.updateOne(filter, replacement, mongoOptions);
+    }
+    return this.collection.replaceOne(filter, replacement, mongoOptions);
+  }
+
+  /**
+   * Replace a document by its _id.
+   * Convenience method that wraps replaceOne with _id filter.
+   *
+   * @param id - ObjectId or string representation
+   * @param data - The full replacement document
+   * @param options - Replace options (upsert, timestamps, validate, session)
+   * @returns Update result with matchedCount, modifiedCount
+   *
+   * @example
+   * ```typescript
+   * await db.users.replaceById(userId, { email: "john@example.com", name: "John Doe" });
+   * ```
+   */
+  async replaceById(
+    id: ObjectId | string,
+    data: Document,
+    options?: ReplaceOptions
+  ): Promise<UpdateResult> {
+    const objectId = this.parseObjectId(id);
+    return this.replaceOne({ _id: objectId }, data, options);
+  }
+
+  /**
+   * Update the document matching the filter, or insert it if none matches, and return it.
+   * `create` is validated as a full document and only written on insert (`$setOnInsert`);
+   * `update` is validated as a partial update and applied in both cases.
+   * Soft-deleted documents never match the filter.
+   *
+   * On insert, `update` wins over `create`: a `create` field whose path `update` also writes
+   * (the same path, a parent or a child path) is dropped, since MongoDB rejects conflicting paths.
+   *
+   * @param where - MongoDB filter query
+   * @param data - `create`: the document to insert; `update`: update data or MongoDB update operators
+   * @param options - Upsert options (timestamps, validate, session)
+   * @returns The document after the write
+   *
+   * @example
+   * ```typescript
+   * const user = await db.users.upsert(
+   *   { email: "john@example.com" },
+   *   {
+   *     create: { email: "john@example.com", name: "John Doe", loginCount: 1 },
+   *     update: { $inc: { loginCount: 1 } },
+   *   }
+   * );
+   * ```
+   */
+  async upsert(
+    where: Filter<Document>,
+    data: { create: Document; update: Document },
+    options?: UpsertOptions
+  ): Promise<WithId<Document>> {
+    const { timestamps, validate, ...mongoOptions } = options || {};
+    const filter = this.applySoftDeleteScope(where);
+    const created = this.validateCreate(applyDefaults(this.schema, data.create), validate);
+    const update = this.buildUpdate(filter, data.update, { upsert: true, timestamps, validate });
+
+    // Fields written by the update are not repeated in $setOnInsert (MongoDB rejects conflicts)
+    const touched = Object.entries(update)
+      .filter(([operator]) => operator !== "$setOnInsert")
+      .flatMap(([, fields]) => Object.keys(fields ?? {}));
+    const setOnInsert: Document = { ...update.$setOnInsert };
+    for (const [field, value] of Object.entries(created)) {
+      const conflicts = touched.some(
+        (path) => path === field || path.startsWith(`${field}.`) || field.startsWith(`${path}.`)
+      );
+      if (!conflicts) setOnInsert[field] = value;
+    }
+    if (Object.keys(setOnInsert).length > 0) {
+      update.$setOnInsert = setOnInsert;
+    }
+
+    const doc = await this.collection.findOneAndUpdate(filter, update, {
+      ...mongoOptions,
+      upsert: true,
+      returnDocument: "after",
+    });
+    // An upsert returning the document after the write always yields one
+    return doc as WithId<Document>;
+  }
+
+  /**
+   * Atomically update a single document and return it.
+   * Goes through the same validation, timestamps and upsert defaults as `updateOne`.
+   *
+   * @param where - MongoDB filter query
+   * @param data - Update data or MongoDB update operators
+   * @param options - Options (returnDocument, upsert, select, sort, timestamps, validate, merge, session, withDeleted, onlyDeleted)
+   * @returns The document before the update (or after it with `returnDocument: "after"`), or null if none matched
+   *
+   * @example
+   * ```typescript
+   * // Increment a counter and read the new value
+   * const counter = await db.counters.findOneAndUpdate(
+   *   { name: "invoices" },
+   *   { $inc: { value: 1 } },
+   *   { upsert: true, returnDocument: "after" }
+   * );
+   *
+   * // Claim the oldest pending job
+   * const job = await db.jobs.findOneAndUpdate(
+   *   { status: "pending" },
+   *   { $set: { status: "running", workerId } },
+   *   { sort: { createdAt: 1 }, returnDocument: "after" }
+   * );
+   * ```
+   */
+  async findOneAndUpdate(
+    where: Filter<Document>,
+    data: Document,
+    options?: FindOneAndUpdateOptions<TSchema>
+  ): Promise<WithId<Document> | null> {
+    const update = this.buildUpdate(where, data, options);
+    return this.collection.findOneAndUpdate(
+      this.applySoftDeleteScope(where, options),
+      update,
+      this.findAndModifyOptions(options)
+    );
+  }
+
+  /**
+   * Atomically update a document by its _id and return it.
+   *
+   * @param id - ObjectId or string representation
+   * @param data - Update data or MongoDB update operators
+   * @param options - Options (returnDocument, upsert, select, timestamps, validate, merge, session, withDeleted, onlyDeleted)
+   * @returns The document before or after the update, or null if not found
+   *
+   * @example
+   * ```typescript
+   * const user = await db.users.findByIdAndUpdate(
+   *   userId,
+   *   { $set: { role: "ADMIN" } },
+   *   { returnDocument: "after" }
+   * );
+   * ```
+   */
+  async findByIdAndUpdate(
+    id: ObjectId | string,
+    data: Document,
+    options?: FindOneAndUpdateOptions<TSchema>
+  ): Promise<WithId<Document> | null> {
+    const objectId = this.parseObjectId(id);
+    return this.findOneAndUpdate({ _id: objectId }, data, options);
+  }
+
+  /**
+   * Atomically replace a single document and return it.
+   * The replacement is validated as a full document and gets field defaults. When timestamps are
+   * enabled, `updatedAt` is refreshed and the stored `createdAt` is kept (set on upsert).
+   *
+   * @param where - MongoDB filter query
+   * @param data - The full replacement document
+   * @param options - Options (returnDocument, upsert, select, sort, timestamps, validate, session, withDeleted, onlyDeleted)
+   * @returns The document before the replace (or after it with `returnDocument: "after"`), or null if none matched
+   *
+   * @example
+   * ```typescript
+   * const settings = await db.settings.findOneAndReplace(
+   *   { userId },
+   *   { userId, theme: "dark", language: "en" },
+   *   { upsert: true, returnDocument: "after" }
+   * );
+   * ```
+   */
+  async findOneAndReplace(
+    where: Filter<Document>,
+    data: Document,
+    options?: FindOneAndReplaceOptions<TSchema>
+  ): Promise<WithId<Document> | null> {
+    const filter = this.applySoftDeleteScope(where, options);
+    const replacement = this.buildReplacement(data, options);
+    const mongoOptions = this.findAndModifyOptions(options);
+    if (Array.isArray(replacement)) {
+      return this.collection.findOneAndUpdate(filter, replacement, mongoOptions);
+    }
+    return this.collection.findOneAndReplace(filter, replacement, mongoOptions);
+  }
+
+  /**
+   * Atomically replace a document by its _id and return it.
+   *
+   * @param id - ObjectId or string representation
+   * @param data - The full replacement document
+   * @param options - Options (returnDocument, upsert, select, timestamps, validate, session, withDeleted, onlyDeleted)
+   * @returns The document before or after the replace, or null if not found
+   *
+   * @example
+   * ```typescript
+   * await db.users.findByIdAndReplace(userId, { email: "john@example.com", name: "John" });
+   * ```
+   */
+  async findByIdAndReplace(
+    id: ObjectId | string,
+    data: Document,
+    options?: FindOneAndReplaceOptions<TSchema>
+  ): Promise<WithId<Document> | null> {
+    const objectId = this.parseObjectId(id);
+    return this.findOneAndReplace({ _id: objectId }, data, options);
+  }
+
+  /**
+   * Atomically delete a single document and return it.
+   * Sets the soft delete field instead when soft delete is enabled in schema.
+   *
+   * @param where - MongoDB filter query
+   * @param options - Options (select, sort, soft, session)
+   * @returns The deleted document as it was before the delete, or null if none matched
+   *
+   * @example
+   * ```typescript
+   * // Pop the oldest message off a queue
+   * const message = await db.messages.findOneAndDelete({ queue: "emails" }, { sort: { _id: 1 } });
+   * ```
+   */
+  async findOneAndDelete(
+    where: Filter<Document>,
+    options?: FindOneAndDeleteOptions<TSchema>
+  ): Promise<WithId<Document> | null> {
+    const { soft, select, sort, ...mongoOptions } = options || {};
+    const findOptions: MongoFindOneAndDeleteOptions = { ...mongoOptions };
+    if (select) {
+      findOptions.projection = select as Document;
+    }
+    if (sort) {
+      findOptions.sort = sort as Sort;
+    }
+
+    if (soft ?? Boolean(this.schema.softDelete)) {
+      return this.collection.findOneAndUpdate(
+        this.scopeDeleted(where, false),
+        this.softDeleteUpdate(),
+        findOptions
+      );
+    }
+    return this.collection.findOneAndDelete(where, findOptions);
+  }
+
+  /**
+   * Atomically delete a document by its _id and return it.
+   *
+   * @param id - ObjectId or string representation
+   * @param options - Options (select, soft, session)
+   * @returns The deleted document, or null if not found
+   *
+   * @example
+   * ```typescript
+   * const removed = await db.users.findByIdAndDelete(userId);
+   * ```
+   */
+  async findByIdAndDelete(
+    id: ObjectId | string,
+    options?: FindOneAndDeleteOptions<TSchema>
+  ): Promise<WithId<Document> | null> {
+    const objectId = this.parseObjectId(id);
+    return this.findOneAndDelete({ _id: objectId }, options);
+  }
+
   /**
    * Delete a single document matching the filter.
+   * Sets the soft delete field instead when soft delete is enabled in schema.
    *
    * @param where - MongoDB filter query
-   * @param options - Delete options (session)
+   * @param options - Delete options (soft, session)
    * @returns Delete result with deletedCount
    *
    * @example
@@ -417,21 +1107,32 @@ export class CollectionProxy<TSchema extends Schema> {
    * // Delete by email
    * await db.users.deleteOne({ email: "john@example.com" });
    *
+   * // Force a hard delete on a soft delete schema
+   * await db.users.deleteOne({ email: "john@example.com" }, { soft: false });
+   *
    * // With session (for transactions)
    * await db.users.deleteOne({ _id: userId }, { session });
    * ```
    */
   async deleteOne(where: Filter<Document>, options?: DeleteOptions): Promise<DeleteResult> {
-    const { soft: _soft, ...mongoOptions } = options || {};
-    void _soft;
+    const { soft, ...mongoOptions } = options || {};
+    if (soft ?? Boolean(this.schema.softDelete)) {
+      const result = await this.collection.updateOne(
+        this.scopeDeleted(where, false),
+        this.softDeleteUpdate(),
+        mongoOptions
+      );
+      return { acknowledged: result.acknowledged, deletedCount: result.modifiedCount };
+    }
     return this.collection.deleteOne(where, mongoOptions);
   }
 
   /**
    * Delete multiple documents matching the filter.
+   * Sets the soft delete field instead when soft delete is enabled in schema.
    *
    * @param where - MongoDB filter query
-   * @param options - Delete options (session)
+   * @param options - Delete options (soft, session)
    * @returns Delete result with deletedCount
    *
    * @example
@@ -447,8 +1148,15 @@ export class CollectionProxy<TSchema extends Schema> {
    * ```
    */
   async deleteMany(where: Filter<Document>, options?: DeleteOptions): Promise<DeleteResult> {
-    const { soft: _soft, ...mongoOptions } = options || {};
-    void _soft;
+    const { soft, ...mongoOptions } = options || {};
+    if (soft ?? Boolean(this.schema.softDelete)) {
+      const result = await this.collection.updateMany(
+        this.scopeDeleted(where, false),
+        this.softDeleteUpdate(),
+        mongoOptions
+      );
+      return { acknowledged: result.acknowledged, deletedCount: result.modifiedCount };
+    }
     return this.collection.deleteMany(where, mongoOptions);
   }
 
@@ -456,7 +1164,7 @@ export class CollectionProxy<TSchema extends Schema> {
    * Delete a document by its _id.
    *
    * @param id - ObjectId or string representation
-   * @param options - Delete options (session)
+   * @param options - Delete options (soft, session)
    * @returns Delete result with deletedCount
    *
    * @example
@@ -470,11 +1178,57 @@ export class CollectionProxy<TSchema extends Schema> {
     return this.deleteOne({ _id: objectId }, options);
   }
 
+  /**
+   * Restore soft-deleted documents matching the filter.
+   * Clears the soft delete field and bumps updatedAt if timestamps are enabled.
+   *
+   * @param where - MongoDB filter query
+   * @param options - Update options (timestamps, session)
+   * @returns Update result with matchedCount, modifiedCount
+   *
+   * @example
+   * ```typescript
+   * // Restore every post deleted by a user
+   * await db.posts.restore({ authorId: userId });
+   * ```
+   */
+  async restore(where: Filter<Document>, options?: UpdateOptions): Promise<UpdateResult> {
+    const field = this.softDeleteField();
+    const update = this.applyUpdateTimestamps({ $unset: { [field]: "" } }, true, options);
+    const {
+      timestamps: _timestamps,
+      validate: _validate,
+      merge: _merge,
+      ...mongoOptions
+    } = options || {};
+    void _timestamps;
+    void _validate;
+    void _merge;
+    return this.collection.updateMany(this.scopeDeleted(where, true), update, mongoOptions);
+  }
+
+  /**
+   * Restore a soft-deleted document by its _id.
+   *
+   * @param id - ObjectId or string representation
+   * @param options - Update options (timestamps, session)
+   * @returns Update result with matchedCount, modifiedCount
+   *
+   * @example
+   * ```typescript
+   * await db.users.restoreById("507f1f77bcf86cd799439011");
+   * ```
+   */
+  async restoreById(id: ObjectId | string, options?: UpdateOptions): Promise<UpdateResult> {
+    const objectId = this.parseObjectId(id);
+    return this.restore({ _id: objectId }, options);
+  }
+
   /**
    * Count documents matching the filter.
    *
    * @param where - MongoDB filter query (optional)
-   * @param options - Count options (limit, skip, session)
+   * @param options - Count options (limit, skip, session, withDeleted, onlyDeleted)
    * @returns Number of matching documents
    *
    * @example
@@ -489,8 +1243,11 @@ export class CollectionProxy<TSchema extends Schema> {
    * const hasAdmins = await db.users.count({ role: "ADMIN" }, { limit: 1 }) > 0;
    * ```
    */
-  async count(where: Filter<Document> = {}, options?: CountDocumentsOptions): Promise<number> {
-    return this.collection.countDocuments(where, options);
+  async count(where: Filter<Document> = {}, options?: CountOptions): Promise<number> {
+    const { withDeleted: _withDeleted, onlyDeleted: _onlyDeleted, ...mongoOptions } = options || {};
+    void _withDeleted;
+    void _onlyDeleted;
+    return this.collection.countDocuments(this.applySoftDeleteScope(where, options), mongoOptions);
   }
 
   /**
@@ -498,7 +1255,7 @@ export class CollectionProxy<TSchema extends Schema> {
    * Optimized to stop after finding first match.
    *
    * @param where - MongoDB filter query
-   * @param options - Count options (session)
+   * @param options - Count options (session, withDeleted, onlyDeleted)
    * @returns true if at least one document matches
    *
    * @example
@@ -510,11 +1267,347 @@ export class CollectionProxy<TSchema extends Schema> {
    * const isAdmin = await db.users.exists({ _id: userId, role: "ADMIN" });
    * ```
    */
-  async exists(where: Filter<Document>, options?: CountDocumentsOptions): Promise<boolean> {
-    const count = await this.collection.countDocuments(where, { ...options, limit: 1 });
+  async exists(where: Filter<Document>, options?: CountOptions): Promise<boolean> {
+    const count = await this.count(where, { ...options, limit: 1 });
     return count > 0;
   }
 
+  /**
+   * Get the distinct values of a field across the documents matching the filter.
+   * Array fields are flattened: each element is a separate value.
+   *
+   * @param field - Field or dot-notation path
+   * @param where - MongoDB filter query (optional, defaults to {})
+   * @param options - Distinct options (collation, session, withDeleted, onlyDeleted)
+   * @returns Array of distinct values
+   *
+   * @example
+   * ```typescript
+   * // Populate a filter dropdown
+   * const roles = await db.users.distinct("role");
+   *
+   * // Distinct nested values of active users, case-insensitively
+   * const cities = await db.users.distinct(
+   *   "address.city",
+   *   { isActive: true },
+   *   { collation: { locale: "en", strength: 2 } }
+   * );
+   * ```
+   */
+  async distinct(
+    field: string,
+    where: Filter<Document> = {},
+    options?: DistinctOptions
+  ): Promise<unknown[]> {
+    const { withDeleted: _withDeleted, onlyDeleted: _onlyDeleted, ...mongoOptions } = options || {};
+    void _withDeleted;
+    void _onlyDeleted;
+    return this.collection.distinct(field, this.applySoftDeleteScope(where, options), mongoOptions);
+  }
+
+  /**
+   * Find documents near a point, sorted from nearest to farthest.
+   * Requires a 2dsphere index on the field (added automatically by `s.point()`).
+   *
+   * @param field - GeoJSON field to query
+   * @param point - GeoJSON point to measure from
+   * @param options - Near options (where, maxDistance, minDistance) and find options
+   * @returns Array of matching documents, nearest first
+   *
+   * @example
+   * ```typescript
+   * // Open stores within 2km
+   * const stores = await db.stores.near(
+   *   "location",
+   *   { type: "Point", coordinates: [-73.9855, 40.758] },
+   *   { maxDistance: 2000, where: { isOpen: true }, limit: 10 }
+   * );
+   * ```
+   */
+  async near(
+    field: string,
+    point: GeoPoint,
+    options?: NearOptions<TSchema>
+  ): Promise<WithId<Document>[]> {
+    const { where = {}, maxDistance, minDistance, ...findOptions } = options || {};
+    const near: Document = { $geometry: point };
+    if (maxDistance !== undefined) near.$maxDistance = maxDistance;
+    if (minDistance !== undefined) near.$minDistance = minDistance;
+
+    return this.findMany({ ...where, [field]: { $near: near } }, findOptions);
+  }
+
+  /**
+   * Find documents whose geometry lies within a polygon.
+   *
+   * @param field - GeoJSON field to query
+   * @param geometry - GeoJSON polygon bounding the search area
+   * @param options - Within options (where) and find options
+   * @returns Array of matching documents
+   *
+   * @example
+   * ```typescript
+   * const stores = await db.stores.within("location", {
+   *   type: "Polygon",
+   *   coordinates: [[[-74, 40.75], [-73.97, 40.75], [-73.97, 40.77], [-74, 40.75]]],
+   * });
+   * ```
+   */
+  async within(
+    field: string,
+    geometry: GeoPolygon,
+    options?: WithinOptions<TSchema>
+  ): Promise<WithId<Document>[]> {
+    const { where = {}, ...findOptions } = options || {};
+    return this.findMany(
+      { ...where, [field]: { $geoWithin: { $geometry: geometry } } },
+      findOptions
+    );
+  }
+
+  /**
+   * Find documents near a point with their distance, using a `$geoNear` aggregation.
+   *
+   * @param field - GeoJSON field to query
+   * @param point - GeoJSON point to measure from
+   * @param options - geoNear options (where, maxDistance, minDistance, distanceField, select, limit, session)
+   * @returns Array of documents with the distance in meters, nearest first
+   *
+   * @example
+   * ```typescript
+   * const stores = await db.stores.geoNear(
+   *   "location",
+   *   { type: "Point", coordinates: [-73.9855, 40.758] },
+   *   { maxDistance: 2000, limit: 10 }
+   * );
+   * console.log(`${stores[0]?.name}: ${stores[0]?.distance}m away`);
+   * ```
+   */
+  async geoNear(
+    field: string,
+    point: GeoPoint,
+    options?: GeoNearOptions<TSchema, string>
+  ): Promise<Document[]> {
+    const {
+      where = {},
+      maxDistance,
+      minDistance,
+      distanceField = "distance",
+      select,
+      limit,
+      withDeleted,
+      onlyDeleted,
+      ...aggregateOptions
+    } = options || {};
+
+    const geoNear: Document = {
+      near: point,
+      key: field,
+      distanceField,
+      spherical: true,
+      query: this.applySoftDeleteScope(where, { withDeleted, onlyDeleted }),
+    };
+    if (maxDistance !== undefined) geoNear.maxDistance = maxDistance;
+    if (minDistance !== undefined) geoNear.minDistance = minDistance;
+
+    const pipeline: Document[] = [{ $geoNear: geoNear }];
+    if (limit !== undefined) {
+      pipeline.push({ $limit: limit });
+    }
+    if (select) {
+      const projection: Document = { ...select };
+      // Keep the distance in inclusion projections
+      const isInclusion = Object.entries(select).some(
+        ([key, value]) => key !== "_id" && Boolean(value)
+      );
+      if (isInclusion) projection[distanceField] = 1;
+      pipeline.push({ $project: projection });
+    }
+
+    return this.collection.aggregate(pipeline, aggregateOptions).toArray();
+  }
+
+  /**
+   * Synchronize documents keyed on a unique business field: inserts new documents, updates
+   * changed ones and leaves identical ones untouched, in chunks of `bulkWrite`s.
+   * Each document is validated as a full document; `createdAt` is only set on insert.
+   * Existing documents are compared and updated on the given fields only: defaults of
+   * missing fields are written on insert and never overwrite stored values.
+   * Soft-deleted documents are not matched.
+   *
+   * @param docs - Full documents to synchronize
+   * @param options - Options (key, deleteMissing, chunkSize, validate, session)
+   * @returns Inserted, updated, unchanged and deleted counts, and the per-document errors
+   *
+   * @example
+   * ```typescript
+   * const result = await db.products.upsertMany(catalog, {
+   *   key: "sku",
+   *   deleteMissing: true,
+   *   chunkSize: 500,
+   * });
+   * console.log(`${result.insertedCount} new, ${result.updatedCount} changed`);
+   * ```
+   */
+  async upsertMany(
+    docs: Document[],
+    options: UpsertManyOptions<TSchema>
+  ): Promise<UpsertManyResult> {
+    const {
+      key,
+      deleteMissing = false,
+      chunkSize = DEFAULT_CHUNK_SIZE,
+      validate,
+      ...mongoOptions
+    } = options;
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+      throw new Error("upsertMany() chunkSize must be a positive integer");
+    }
+
+    const result: UpsertManyResult = {
+      insertedCount: 0,
+      updatedCount: 0,
+      unchangedCount: 0,
+      deletedCount: 0,
+      errors: [],
+    };
+    // Validated (and transformed) keys of the input, to find the missing documents
+    const keys: unknown[] = [];
+    let invalidCount = 0;
+
+    for (let start = 0; start < docs.length; start += chunkSize) {
+      const prepared: { index: number; doc: Document; given: string[] }[] = [];
+      docs.slice(start, start + chunkSize).forEach((data, offset) => {
+        try {
+          prepared.push({
+            index: start + offset,
+            doc: this.validateCreate(applyDefaults(this.schema, data), validate),
+            given: Object.keys(data).filter((field) => field !== "_id"),
+          });
+        } catch (error) {
+          if (!(error instanceof ZodError)) throw error;
+          result.errors.push({ index: start + offset, error });
+          invalidCount++;
+        }
+      });
+      keys.push(...prepared.map(({ doc }) => doc[key]));
+      if (prepared.length === 0) continue;
+
+      // Read the current documents of the chunk to skip the ones that did not change
+      const inChunk = { [key]: { $in: prepared.map(({ doc }) => doc[key]) } };
+      const existing = await this.collection
+        .find(this.applySoftDeleteScope(inChunk), { session: mongoOptions.session })
+        .toArray();
+      const current = new Map(existing.map((doc) => [toComparable(doc[key]), doc]));
+
+      const models: AnyBulkWriteOperation<Document>[] = [];
+      const indexes: number[] = [];
+      for (const { index, doc, given } of prepared) {
+        // Given fields are set in both cases, defaulted ones only on insert
+        const set: Document = {};
+        const setOnInsert: Document = {};
+        for (const [field, value] of Object.entries(doc)) {
+          if (given.includes(field)) set[field] = value;
+          else setOnInsert[field] = value;
+        }
+
+        const stored = current.get(toComparable(doc[key]));
+        const changed =
+          !stored ||
+          Object.entries(set).some(
+            ([field, value]) => toComparable(stored[field]) !== toComparable(value)
+          );
+        if (!changed) {
+          result.unchangedCount++;
+          continue;
+        }
+
+        const update: UpdateFilter<Document> = { $set: set };
+        if (Object.keys(setOnInsert).length > 0) {
+          update.$setOnInsert = setOnInsert;
+        }
+        models.push({
+          updateOne: {
+            filter: this.applySoftDeleteScope({ [key]: doc[key] }),
+            update: this.applyUpdateTimestamps(update, true, { upsert: true }),
+            upsert: true,
+          },
+        });
+        indexes.push(index);
+      }
+
+      const summary = await this.executeBulkWrite(models, indexes, result.errors, {
+        ...mongoOptions,
+        ordered: false,
+      });
+      result.insertedCount += summary.upsertedCount;
+      result.updatedCount += summary.modifiedCount;
+      // Documents changed back between the read and the write match without being modified
+      result.unchangedCount += summary.matchedCount - summary.modifiedCount;
+    }
+
+    // The key of an invalid document is unknown, so nothing can safely be deleted
+    if (deleteMissing && invalidCount === 0) {
+      const { deletedCount } = await this.deleteMany(
+        { [key]: { $nin: keys } },
+        { session: mongoOptions.session }
+      );
+      result.deletedCount = deletedCount;
+    }
+    return result;
+  }
+
+  /**
+   * Run a batch of inserts, updates, replaces and deletes in a single `bulkWrite`.
+   * Every operation gets the same defaults, validation and timestamps as the matching
+   * single-document method. Failures are reported per operation instead of aborting the batch.
+   *
+   * With `ordered: true` (the default), execution stops at the first failing operation.
+   * With `ordered: false`, invalid operations are skipped and the rest are still written.
+   *
+   * @param operations - Bulk operations (insertOne, updateOne, updateMany, replaceOne, deleteOne, deleteMany)
+   * @param options - Bulk write options (ordered, timestamps, validate, soft, session)
+   * @returns Counts, inserted and upserted ids by operation index, and the per-operation errors
+   *
+   * @example
+   * ```typescript
+   * const result = await db.users.bulkWrite(
+   *   [
+   *     { insertOne: { document: { email: "new@example.com", name: "New" } } },
+   *     { updateOne: { filter: { email: "john@example.com" }, update: { $set: { role: "ADMIN" } } } },
+   *     { deleteMany: { filter: { isActive: false } } },
+   *   ],
+   *   { ordered: false }
+   * );
+   * for (const { index, error } of result.errors) {
+   *   console.error(`Operation ${index} failed`, error);
+   * }
+   * ```
+   */
+  async bulkWrite(
+    operations: AnyBulkWriteOperation<Document>[],
+    options?: BulkWriteOpts
+  ): Promise<BulkWriteSummary> {
+    const { timestamps, validate, soft, ordered = true, ...mongoOptions } = options || {};
+    const errors: OperationError[] = [];
+    const models: AnyBulkWriteOperation<Document>[] = [];
+    // Input index of each model sent to the driver
+    const indexes: number[] = [];
+
+    for (const [index, operation] of operations.entries()) {
+      try {
+        models.push(this.toBulkModel(operation, { timestamps, validate, soft }));
+        indexes.push(index);
+      } catch (error) {
+        if (!(error instanceof ZodError)) throw error;
+        errors.push({ index, error });
+        if (ordered) break;
+      }
+    }
+
+    return this.executeBulkWrite(models, indexes, errors, { ...mongoOptions, ordered });
+  }
+
   /**
    * Run an aggregation pipeline.
    * Provides full access to MongoDB aggregation framework.
@@ -552,6 +1645,49 @@ export class CollectionProxy<TSchema extends Schema> {
     return this.collection.aggregate(pipeline, options).toArray();
   }
 
+  /**
+   * Watch the changes of the collection as an async iterable of change events.
+   * The change stream is opened when iteration starts and closed when the loop ends or breaks.
+   *
+   * @param pipeline - Aggregation stages to filter or reshape the events (optional)
+   * @param options - Change stream options (fullDocument, resumeAfter, startAfter, tokenStore, ...)
+   * @returns An async iterable of change events, with a `close()` method to stop running loops
+   *
+   * @example
+   * ```typescript
+   * // Updates with the current document looked up
+   * for await (const event of db.users.watch([], { fullDocument: "updateLookup" })) {
+   *   if (event.operationType === "update" && event.updateDescription.updatedFields?.email) {
+   *     await sendConfirmation(event.fullDocument);
+   *   }
+   * }
+   *
+   * // Inserts only, resuming where the previous run stopped
+   * const stream = db.orders.watch([{ $match: { operationType: "insert" } }], {
+   *   tokenStore: {
+   *     load: async () => (await db.cursors.findOne({ name: "orders" }))?.token,
+   *     save: async (token) => {
+   *       await db.cursors.updateOne({ name: "orders" }, { $set: { token } }, { upsert: true });
+   *     },
+   *   },
+   * });
+   * for await (const event of stream) {
+   *   await fulfill(event.fullDocument);
+   * }
+   * ```
+   */
+  watch(
+    pipeline: Document[] = [],
+    options?: WatchOptions
+  ): ChangeEventStream<ChangeStreamDocument> {
+    const { tokenStore, ...streamOptions } = options || {};
+    return new ChangeEventStream(
+      (openOptions) => this.collection.watch(pipeline, openOptions),
+      streamOptions,
+      tokenStore
+    );
+  }
+
   /**
    * Get the underlying MongoDB Collection instance.
    * Use for advanced operations not covered by the proxy.
@@ -562,14 +1698,43 @@ export class CollectionProxy<TSchema extends Schema> {
    * ```typescript
    * const collection = db.users.getCollection();
    *
-   * // Use for watch, bulkWrite, or other advanced operations
-   * const changeStream = collection.watch();
+   * // Use for driver methods without a proxy equivalent
+   * const total = await collection.estimatedDocumentCount();
    * ```
    */
   getCollection(): Collection<Document> {
     return this.collection;
   }
 
+  private findCursor(
+    where: Filter<Document>,
+    options?: FindOptions<TSchema>
+  ): FindCursor<WithId<Document>> {
+    const mongoOptions: MongoFindOptions = {};
+    if (options?.session) {
+      mongoOptions.session = options.session;
+    }
+    if (options?.batchSize !== undefined) {
+      mongoOptions.batchSize = options.batchSize;
+    }
+
+    let cursor = this.collection.find(this.applySoftDeleteScope(where, options), mongoOptions);
+
+    if (options?.select) {
+      cursor = cursor.project(options.select as Document);
+    }
+    if (options?.sort) {
+      cursor = cursor.sort(options.sort as Sort);
+    }
+    if (options?.skip !== undefined) {
+      cursor = cursor.skip(options.skip);
+    }
+    if (options?.limit !== undefined) {
+      cursor = cursor.limit(options.limit);
+    }
+    return cursor;
+  }
+
   private applyTimestamps(
     data: Document,
     operation: "create" | "update",
@@ -597,10 +1762,293 @@ export class CollectionProxy<TSchema extends Schema> {
     return typeof id === "string" ? new ObjectId(id) : id;
   }
 
+  private async resolveIncludes(
+    docs: WithId<Document>[],
+    include: Record<string, boolean | undefined>,
+    session?: ClientSession
+  ): Promise<WithId<Document>[]> {
+    let result = docs;
+
+    for (const [fieldName, enabled] of Object.entries(include)) {
+      if (!enabled) continue;
+
+      const target = this.getRefTarget(fieldName);
+      const ids = [
+        ...new Map(
+          result
+            .map((doc) => doc[fieldName])
+            .filter((id) => id !== null && id !== undefined)
+            .map((id) => [String(id), id])
+        ).values(),
+      ];
+      if (ids.length === 0) continue;
+
+      // One batched query per reference field
+      const related = await target.findMany({ _id: { $in: ids } }, { session });
+      const byId = new Map(related.map((doc) => [String(doc._id), doc]));
+
+      result = result.map((doc) => {
+        const id = doc[fieldName];
+        if (id === null || id === undefined) return doc;
+        return { ...doc, [fieldName]: byId.get(String(id)) ?? null };
+      });
+    }
+
+    return result;
+  }
+
+  private getRefTarget(fieldName: string): CollectionProxy<Schema> {
+    const ref = this.schema.fields[fieldName]?.ref;
+    if (!ref) {
+      throw new Error(`Field "${fieldName}" of schema "${this.schema.name}" is not a reference.`);
+    }
+
+    const target = this.resolveProxy?.(ref);
+    if (!target) {
+      throw new Error(
+        `Unknown schema "${ref}" referenced by "${this.schema.name}.${fieldName}". Register it in the client schemas.`
+      );
+    }
+    return target;
+  }
+
+  private softDeleteField(): string {
+    return (this.schema.softDelete && this.schema.softDelete.deletedAt) || "deletedAt";
+  }
+
+  private applySoftDeleteScope(
+    where: Filter<Document>,
+    options?: SoftDeleteQueryOptions
+  ): Filter<Document> {
+    if (!this.schema.softDelete || options?.withDeleted) {
+      return where;
+    }
+    return this.scopeDeleted(where, options?.onlyDeleted === true);
+  }
+
+  private scopeDeleted(where: Filter<Document>, deleted: boolean): Filter<Document> {
+    const field = this.softDeleteField();
+    // An explicit condition on the soft delete field takes precedence
+    if (field in where) {
+      return where;
+    }
+    return { ...where, [field]: deleted ? { $ne: null } : null };
+  }
+
+  private softDeleteUpdate(): UpdateFilter<Document> {
+    return this.applyUpdateTimestamps({ $set: { [this.softDeleteField()]: new Date() } }, true);
+  }
+
+  /** Maps proxy options of the find-and-modify methods to driver options. */
+  private findAndModifyOptions(
+    options?: FindOneAndUpdateOptions<TSchema>
+  ): MongoFindOneAndUpdateOptions {
+    const {
+      timestamps: _timestamps,
+      validate: _validate,
+      merge: _merge,
+      withDeleted: _withDeleted,
+      onlyDeleted: _onlyDeleted,
+      select,
+      sort,
+      ...mongoOptions
+    } = options || {};
+    void _timestamps;
+    void _validate;
+    void _merge;
+    void _withDeleted;
+    void _onlyDeleted;
+
+    const findOptions: MongoFindOneAndUpdateOptions = { ...mongoOptions };
+    if (select) {
+      findOptions.projection = select as Document;
+    }
+    if (sort) {
+      findOptions.sort = sort as Sort;
+    }
+    return findOptions;
+  }
+
+  /**
+   * Builds a full replacement document: defaults, validation and timestamps.
+   * When `createdAt` must be kept, returns an update pipeline that merges the stored value
+   * into the replacement, so the replace stays a single atomic write.
+   */
+  private buildReplacement(
+    data: Document,
+    options?: Pick<UpdateOptions, "timestamps" | "validate">
+  ): Document | Document[] {
+    const validated = this.validateCreate(applyDefaults(this.schema, data), options?.validate);
+    const timestamps = this.schema.timestamps;
+    if (options?.timestamps === false || !timestamps) {
+      return validated;
+    }
+
+    const now = new Date();
+    const doc: Document = { ...validated };
+    if (timestamps.updatedAt) {
+      doc[timestamps.updatedAt] = now;
+    }
+    if (!timestamps.createdAt) {
+      return doc;
+    }
+
+    const createdAt = timestamps.createdAt;
+    delete doc[createdAt];
+    return [
+      {
+        $replaceWith: {
+          $mergeObjects: [
+            { _id: "$_id" },
+            { $literal: doc },
+            { [createdAt]: { $ifNull: [`$${createdAt}`, now] } },
+          ],
+        },
+      },
+    ];
+  }
+
+  /**
+   * Sends prepared bulk models and maps the driver result back to input indexes.
+   * Write errors are appended to `errors` instead of being thrown.
+   */
+  private async executeBulkWrite(
+    models: AnyBulkWriteOperation<Document>[],
+    indexes: number[],
+    errors: OperationError[],
+    options: MongoBulkWriteOptions
+  ): Promise<BulkWriteSummary> {
+    const summary: BulkWriteSummary = {
+      insertedCount: 0,
+      matchedCount: 0,
+      modifiedCount: 0,
+      deletedCount: 0,
+      upsertedCount: 0,
+      insertedIds: {},
+      upsertedIds: {},
+      errors,
+    };
+    if (models.length === 0) return summary;
+
+    let result: MongoBulkWriteResult;
+    try {
+      result = await this.collection.bulkWrite(models, options);
+    } catch (error) {
+      if (!(error instanceof MongoBulkWriteError)) throw error;
+      result = error.result;
+      const writeErrors = Array.isArray(error.writeErrors)
+        ? error.writeErrors
+        : [error.writeErrors];
+      for (const writeError of writeErrors) {
+        errors.push({ index: indexes[writeError.index] ?? writeError.index, error: writeError });
+      }
+      errors.sort((a, b) => a.index - b.index);
+    }
+
+    summary.insertedCount = result.insertedCount;
+    summary.matchedCount = result.matchedCount;
+    summary.modifiedCount = result.modifiedCount;
+    summary.deletedCount = result.deletedCount;
+    summary.upsertedCount = result.upsertedCount;
+    for (const [position, id] of Object.entries(result.insertedIds)) {
+      summary.insertedIds[indexes[Number(position)] ?? Number(position)] = id;
+    }
+    for (const [position, id] of Object.entries(result.upsertedIds)) {
+      summary.upsertedIds[indexes[Number(position)] ?? Number(position)] = id;
+    }
+    return summary;
+  }
+
+  /**
+   * Applies defaults, validation and timestamps to a single bulk operation.
+   * Replaces that keep `createdAt` and soft deletes are sent as `updateOne`/`updateMany`.
+   * Updates and replaces never match soft-deleted documents, like their single-document methods.
+   */
+  private toBulkModel(
+    operation: AnyBulkWriteOperation<Document>,
+    options: Pick<BulkWriteOpts, "timestamps" | "validate" | "soft">
+  ): AnyBulkWriteOperation<Document> {
+    const { timestamps, validate } = options;
+    const soft = options.soft ?? Boolean(this.schema.softDelete);
+
+    if ("insertOne" in operation) {
+      const document = this.validateCreate(
+        applyDefaults(this.schema, operation.insertOne.document),
+        validate
+      );
+      return { insertOne: { document: this.applyTimestamps(document, "create", timestamps) } };
+    }
+    if ("updateOne" in operation || "updateMany" in operation) {
+      const model = "updateOne" in operation ? operation.updateOne : operation.updateMany;
+      const filter = this.applySoftDeleteScope(model.filter);
+      // Pipelines are sent as is
+      const update = Array.isArray(model.update)
+        ? model.update
+        : this.buildUpdate(filter, model.update, {
+            upsert: model.upsert,
+            timestamps,
+            validate,
+          });
+      return "updateOne" in operation
+        ? { updateOne: { ...model, filter, update } }
+        : { updateMany: { ...model, filter, update } };
+    }
+    if ("replaceOne" in operation) {
+      const { replacement: data, ...model } = operation.replaceOne;
+      const filter = this.applySoftDeleteScope(model.filter);
+      const replacement = this.buildReplacement(data, { timestamps, validate });
+      return Array.isArray(replacement)
+        ? { updateOne: { ...model, filter, update: replacement } }
+        : { replaceOne: { ...model, filter, replacement } };
+    }
+    if ("deleteOne" in operation && soft) {
+      const { filter, ...model } = operation.deleteOne;
+      return {
+        updateOne: {
+          ...model,
+          filter: this.scopeDeleted(filter, false),
+          update: this.softDeleteUpdate(),
+        },
+      };
+    }
+    if ("deleteMany" in operation && soft) {
+      const { filter, ...model } = operation.deleteMany;
+      return {
+        updateMany: {
+          ...model,
+          filter: this.scopeDeleted(filter, false),
+          update: this.softDeleteUpdate(),
+        },
+      };
+    }
+    return operation;
+  }
+
+  /**
+   * Builds the update document sent to MongoDB: merges nested objects into dot paths
+   * (when enabled), validates, and adds timestamps and upsert defaults.
+   */
+  private buildUpdate(
+    where: Filter<Document>,
+    data: Document,
+    options?: UpdateBuildOptions
+  ): UpdateFilter<Document> {
+    let hasOperators = Object.keys(data).some((k) => k.startsWith("$"));
+    let input = data;
+    if (!hasOperators && (options?.merge ?? this.schema.mergeUpdates ?? false)) {
+      input = { $set: toDotPaths(data) };
+      hasOperators = true;
+    }
+
+    const validated = this.validateUpdate(input, hasOperators, options?.validate);
+    const update = this.applyUpdateTimestamps(validated, hasOperators, options);
+    return options?.upsert ? this.applyUpsertDefaults(where, update) : update;
+  }
+
   private applyUpdateTimestamps(
     data: Document,
     hasOperators: boolean,
-    options?: UpdateOptions
+    options?: UpdateBuildOptions
   ): UpdateFilter<Document> {
     const schemaTimestamps = this.schema.timestamps;
 
@@ -635,4 +2083,27 @@ export class CollectionProxy<TSchema extends Schema> {
 
     return update;
   }
+
+  private applyUpsertDefaults(
+    where: Filter<Document>,
+    update: UpdateFilter<Document>
+  ): UpdateFilter<Document> {
+    // Paths already written by the filter or an update operator must not be set again
+    const touched = Object.keys(where).filter((key) => !key.startsWith("$"));
+    for (const operator of Object.values(update)) {
+      if (operator && typeof operator === "object") {
+        touched.push(...Object.keys(operator));
+      }
+    }
+
+    const setOnInsert: Document = { ...update.$setOnInsert };
+    let changed = false;
+    for (const [field, value] of Object.entries(applyDefaults(this.schema, {}))) {
+      if (touched.some((path) => path === field || path.startsWith(`${field}.`))) continue;
+      setOnInsert[field] = value;
+      changed = true;
+    }
+
+    return changed ? { ...update, $setOnInsert: setOnInsert } : update;
+  }
 }
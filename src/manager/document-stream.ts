@@ -0,0 +1,88 @@
+import type { AbstractCursor } from "mongodb";
+
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Lazily streams the documents of a query without loading them all into memory.
+ * Every iteration opens a new cursor, which is closed when the loop ends, breaks or throws.
+ *
+ * @template T - The document type
+ *
+ * @example
+ * ```typescript
+ * for await (const user of db.users.iterate({ isActive: true }, { batchSize: 500 })) {
+ *   await sendNewsletter(user);
+ * }
+ *
+ * for await (const users of db.users.iterate({}).batches(1000)) {
+ *   await exportRows(users);
+ * }
+ * ```
+ */
+export class DocumentStream<T> implements AsyncIterable<T> {
+  private open: () => AbstractCursor<T>;
+  private resolve?: (docs: T[]) => Promise<T[]>;
+  private batchSize?: number;
+
+  /**
+   * @param open - Opens a new cursor over the query
+   * @param resolve - Post-processes each batch (e.g. resolves includes)
+   * @param batchSize - Batch size used when `resolve` is set
+   */
+  constructor(
+    open: () => AbstractCursor<T>,
+    resolve?: (docs: T[]) => Promise<T[]>,
+    batchSize?: number
+  ) {
+    this.open = open;
+    this.resolve = resolve;
+    this.batchSize = batchSize;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    if (this.resolve) {
+      // Resolving includes needs whole batches to keep the lookups batched
+      for await (const batch of this.batches(this.batchSize ?? DEFAULT_BATCH_SIZE)) {
+        yield* batch;
+      }
+      return;
+    }
+
+    const cursor = this.open();
+    try {
+      for await (const doc of cursor) {
+        yield doc;
+      }
+    } finally {
+      await cursor.close();
+    }
+  }
+
+  /**
+   * Streams the documents in arrays of up to `size` documents, for chunked processing.
+   *
+   * @param size - Maximum number of documents per batch
+   */
+  async *batches(size: number): AsyncGenerator<T[]> {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error("batches() size must be a positive integer");
+    }
+
+    const cursor = this.open();
+    try {
+      let batch: T[] = [];
+      for await (const doc of cursor) {
+        batch.push(doc);
+        if (batch.length === size) {
+          yield this.resolve ? await this.resolve(batch) : batch;
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        yield this.resolve ? await this.resolve(batch) : batch;
+      }
+    } finally {
+      await cursor.close();
+    }
+  }
+}
@@ -1 +1,3 @@
 export { CollectionProxy } from "./collection-proxy";
+export { DocumentStream } from "./document-stream";
+export { ChangeEventStream } from "./change-stream";
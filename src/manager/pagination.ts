@@ -0,0 +1,151 @@
+import { BSON, type Document, type Filter } from "mongodb";
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+/** A sort key of a keyset page, with `1` for ascending and `-1` for descending. */
+export type SortKey = [path: string, direction: 1 | -1];
+
+const SORT_DIRECTIONS: Record<string, 1 | -1> = {
+  "1": 1,
+  "-1": -1,
+  asc: 1,
+  desc: -1,
+  ascending: 1,
+  descending: -1,
+};
+
+/**
+ * Normalizes a sort object into sort keys, appending `_id` as the tie-breaker
+ * (in the direction of the last key) so every document has a unique position.
+ */
+export function toSortKeys(sort: Document = {}): SortKey[] {
+  const keys = Object.entries(sort).map(([path, value]): SortKey => {
+    const direction = SORT_DIRECTIONS[String(value).toLowerCase()];
+    if (!direction) {
+      throw new Error(`Cannot paginate on "${path}": unsupported sort direction`);
+    }
+    return [path, direction];
+  });
+  if (!keys.some(([path]) => path === "_id")) {
+    keys.push(["_id", keys[keys.length - 1]?.[1] ?? 1]);
+  }
+  return keys;
+}
+
+export function reverseSortKeys(keys: SortKey[]): SortKey[] {
+  return keys.map(([path, direction]): SortKey => [path, direction === 1 ? -1 : 1]);
+}
+
+export function toSort(keys: SortKey[]): Document {
+  return Object.fromEntries(keys);
+}
+
+/** Reads a (possibly dot-notation) path from a document. */
+export function getPathValue(doc: Document, path: string): unknown {
+  let value: unknown = doc;
+  for (const segment of path.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Document)[segment];
+  }
+  return value;
+}
+
+/** Removes a (possibly dot-notation) path from a document, keeping its parents. */
+export function unsetPathValue(doc: Document, path: string): void {
+  const segments = path.split(".");
+  const last = segments.pop() as string;
+  let parent: unknown = doc;
+  for (const segment of segments) {
+    if (parent === null || typeof parent !== "object") return;
+    parent = (parent as Document)[segment];
+  }
+  if (parent !== null && typeof parent === "object") {
+    delete (parent as Document)[last];
+  }
+}
+
+/**
+ * Encodes the sort key values of a document into an opaque cursor.
+ * Values are serialized as Extended JSON so Dates, ObjectIds and other BSON types round-trip.
+ */
+export function encodeCursor(doc: Document, keys: SortKey[]): string {
+  const values = keys.map(([path]) => getPathValue(doc, path) ?? null);
+  return Buffer.from(BSON.EJSON.stringify(values, { relaxed: false })).toString("base64url");
+}
+
+export function decodeCursor(cursor: string, keys: SortKey[]): unknown[] {
+  let values: unknown;
+  try {
+    values = BSON.EJSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid pagination cursor");
+  }
+  if (!Array.isArray(values) || values.length !== keys.length) {
+    throw new Error("Invalid pagination cursor: it does not match the sort of this query");
+  }
+  return values;
+}
+
+/**
+ * Condition matching the values of a single key that come after `value` in sort order.
+ * MongoDB sorts null and missing values before any other value.
+ */
+function afterValue(path: string, value: unknown, direction: 1 | -1): Filter<Document> | null {
+  if (value === null) {
+    return direction === 1 ? { [path]: { $ne: null } } : null;
+  }
+  // _id is never null, so descending keys only need the null branch on other fields
+  if (direction === 1 || path === "_id") {
+    return { [path]: { [direction === 1 ? "$gt" : "$lt"]: value } };
+  }
+  return { $or: [{ [path]: { $lt: value } }, { [path]: null }] };
+}
+
+/**
+ * Filter matching the documents after the cursor values, in the order of the sort keys:
+ * `(k1 > v1) OR (k1 = v1 AND k2 > v2) OR ...`
+ */
+export function keysetFilter(keys: SortKey[], values: unknown[]): Filter<Document> {
+  const branches: Filter<Document>[] = [];
+  keys.forEach(([path, direction], index) => {
+    const after = afterValue(path, values[index], direction);
+    if (!after) return;
+    const equal = keys
+      .slice(0, index)
+      .map(([previous], i): Filter<Document> => ({ [previous]: values[i] }));
+    branches.push(equal.length > 0 ? { $and: [...equal, after] } : after);
+  });
+  return { $or: branches };
+}
+
+/**
+ * Makes sure a projection returns the sort key values needed to build cursors.
+ * Returns the projection to send and the paths to remove from the results afterwards.
+ */
+export function projectSortKeys(
+  select: Document,
+  keys: SortKey[]
+): { projection: Document; hidden: string[] } {
+  const projection: Document = { ...select };
+  const hidden: string[] = [];
+  const isInclusion = Object.entries(select).some(
+    ([key, value]) => key !== "_id" && Boolean(value)
+  );
+
+  for (const [path] of keys) {
+    const covering = Object.keys(select).filter(
+      (key) => key === path || path.startsWith(`${key}.`)
+    );
+    if (isInclusion && path !== "_id") {
+      if (covering.some((key) => Boolean(select[key]))) continue;
+      projection[path] = 1;
+      hidden.push(path);
+    } else {
+      for (const key of covering.filter((key) => !select[key])) {
+        delete projection[key];
+        hidden.push(key);
+      }
+    }
+  }
+  return { projection, hidden };
+}
@@ -0,0 +1,279 @@
+import type {
+  Schema,
+  FieldDefinition,
+  TimestampConfig,
+  SoftDeleteConfig,
+  CompoundIndexDefinition,
+  SchemaRefinement,
+} from "../types";
+import type { FieldBuilder, RefFieldBuilder } from "./field-builder";
+import {
+  schema,
+  type InferredSchema,
+  type SchemaInput,
+  type SchemaInputDocument,
+} from "./define-schema";
+import type { SchemaFieldsInput } from "./schema-builder";
+
+// Any schema created with `schema()` (keeps the field builders for type inference)
+type ComposableSchema = Schema & { readonly __fields: SchemaFieldsInput };
+
+type FieldsOf<T extends ComposableSchema> = T["__fields"];
+
+type SoftDeleteOf<T extends ComposableSchema> = NonNullable<T["softDelete"]>;
+
+// Field builder with the required flag removed
+type OptionalBuilder<T> =
+  T extends RefFieldBuilder<infer R, true, infer N>
+    ? RefFieldBuilder<R, false, N>
+    : T extends FieldBuilder<infer V, true>
+      ? FieldBuilder<V, false>
+      : T;
+
+// Fields of `TBase` overridden by `TOverride`
+type MergeFields<TBase, TOverride> = Omit<TBase, keyof TOverride> & TOverride;
+
+function buildSchema(
+  base: Schema,
+  name: string,
+  fields: Record<string, FieldDefinition>,
+  overrides: Partial<Omit<Schema, "name" | "fields">> = {}
+): Schema {
+  return {
+    name,
+    collection: overrides.collection ?? name,
+    timestamps: overrides.timestamps ?? base.timestamps,
+    softDelete: overrides.softDelete ?? base.softDelete ?? false,
+    validation: overrides.validation ?? base.validation,
+    connection: overrides.connection ?? base.connection,
+    fields,
+    indexes: overrides.indexes ?? base.indexes,
+    refine: overrides.refine ?? base.refine,
+    mergeUpdates: overrides.mergeUpdates ?? base.mergeUpdates,
+  };
+}
+
+/**
+ * Keeps only the compound indexes whose fields all exist in the given field map.
+ * Timestamp and soft delete fields count as existing.
+ */
+function filterIndexes(
+  source: Schema,
+  fields: Record<string, FieldDefinition>
+): CompoundIndexDefinition[] {
+  const known = new Set(["_id", ...Object.keys(fields)]);
+  if (source.timestamps) {
+    known.add(source.timestamps.createdAt ?? "createdAt");
+    known.add(source.timestamps.updatedAt ?? "updatedAt");
+  }
+  if (source.softDelete) {
+    known.add(source.softDelete.deletedAt ?? "deletedAt");
+  }
+
+  return source.indexes.filter((index) =>
+    Object.keys(index.fields).every((path) => known.has(path.split(".")[0] ?? path))
+  );
+}
+
+/**
+ * Creates a new schema from a base schema plus additional fields.
+ * Fields with the same name override the base ones; indexes and refinements are concatenated.
+ * Timestamps, soft delete, validation and connection are inherited unless overridden.
+ *
+ * @example
+ * ```typescript
+ * const auditedSchema = schema("audited", {
+ *   timestamps: true,
+ *   fields: { createdBy: s.objectId().required() },
+ * });
+ *
+ * const invoiceSchema = extendSchema(auditedSchema, "invoices", {
+ *   fields: { total: s.decimal().required() },
+ * });
+ * ```
+ */
+export function extendSchema<
+  TBase extends ComposableSchema,
+  const TName extends string,
+  const TFields extends SchemaFieldsInput = Record<never, never>,
+  const TTimestamps extends boolean | TimestampConfig = TBase["timestamps"],
+  const TSoftDelete extends boolean | SoftDeleteConfig = SoftDeleteOf<TBase>,
+>(
+  base: TBase,
+  name: TName,
+  definition: Partial<Omit<SchemaInput<TFields, TTimestamps, TSoftDelete>, "refine">> & {
+    refine?: SchemaRefinement<SchemaInputDocument<MergeFields<FieldsOf<TBase>, TFields>>>[];
+  } = {}
+): InferredSchema<TName, MergeFields<FieldsOf<TBase>, TFields>, TTimestamps, TSoftDelete> {
+  // Resolve timestamps/soft delete through schema() so they match its defaults
+  const resolved = schema(name, {
+    timestamps: definition.timestamps ?? false,
+    softDelete: definition.softDelete ?? false,
+    fields: definition.fields ?? {},
+  }) as unknown as Schema;
+
+  return buildSchema(
+    base,
+    name,
+    { ...base.fields, ...resolved.fields },
+    {
+      collection: definition.collection,
+      timestamps: definition.timestamps === undefined ? undefined : resolved.timestamps,
+      softDelete: definition.softDelete === undefined ? undefined : resolved.softDelete,
+      validation: definition.validation,
+      connection: definition.connection,
+      mergeUpdates: definition.mergeUpdates,
+      indexes: [...base.indexes, ...(definition.indexes ?? [])],
+      refine: [...(base.refine ?? []), ...((definition.refine ?? []) as SchemaRefinement[])],
+    }
+  ) as unknown as InferredSchema<
+    TName,
+    MergeFields<FieldsOf<TBase>, TFields>,
+    TTimestamps,
+    TSoftDelete
+  >;
+}
+
+/**
+ * Creates a new schema with only the given fields of the base schema.
+ * Compound indexes that reference removed fields and schema-level refinements are dropped.
+ *
+ * @example
+ * ```typescript
+ * const userSummarySchema = pickSchema(userSchema, "userSummaries", ["email", "name"]);
+ * ```
+ */
+export function pickSchema<
+  TBase extends ComposableSchema,
+  const TName extends string,
+  const TKeys extends keyof FieldsOf<TBase> & string,
+>(
+  base: TBase,
+  name: TName,
+  keys: readonly TKeys[]
+): InferredSchema<TName, Pick<FieldsOf<TBase>, TKeys>, TBase["timestamps"], SoftDeleteOf<TBase>> {
+  const fields: Record<string, FieldDefinition> = {};
+  for (const key of keys) {
+    const field = base.fields[key];
+    if (field) fields[key] = field;
+  }
+
+  return buildSchema(base, name, fields, {
+    indexes: filterIndexes(base, fields),
+    refine: [],
+  }) as unknown as InferredSchema<
+    TName,
+    Pick<FieldsOf<TBase>, TKeys>,
+    TBase["timestamps"],
+    SoftDeleteOf<TBase>
+  >;
+}
+
+/**
+ * Creates a new schema without the given fields of the base schema.
+ * Compound indexes that reference removed fields and schema-level refinements are dropped.
+ *
+ * @example
+ * ```typescript
+ * const publicUserSchema = omitSchema(userSchema, "publicUsers", ["passwordHash"]);
+ * ```
+ */
+export function omitSchema<
+  TBase extends ComposableSchema,
+  const TName extends string,
+  const TKeys extends keyof FieldsOf<TBase> & string,
+>(
+  base: TBase,
+  name: TName,
+  keys: readonly TKeys[]
+): InferredSchema<TName, Omit<FieldsOf<TBase>, TKeys>, TBase["timestamps"], SoftDeleteOf<TBase>> {
+  const omitted = new Set<string>(keys);
+  const fields: Record<string, FieldDefinition> = {};
+  for (const [key, field] of Object.entries(base.fields)) {
+    if (!omitted.has(key)) fields[key] = field;
+  }
+
+  return buildSchema(base, name, fields, {
+    indexes: filterIndexes(base, fields),
+    refine: [],
+  }) as unknown as InferredSchema<
+    TName,
+    Omit<FieldsOf<TBase>, TKeys>,
+    TBase["timestamps"],
+    SoftDeleteOf<TBase>
+  >;
+}
+
+/**
+ * Creates a new schema where every field of the base schema is optional.
+ * Only top-level fields are affected and schema-level refinements are dropped.
+ *
+ * @example
+ * ```typescript
+ * const userDraftSchema = partialSchema(userSchema, "userDrafts");
+ * ```
+ */
+export function partialSchema<TBase extends ComposableSchema, const TName extends string>(
+  base: TBase,
+  name: TName
+): InferredSchema<
+  TName,
+  { [K in keyof FieldsOf<TBase>]: OptionalBuilder<FieldsOf<TBase>[K]> },
+  TBase["timestamps"],
+  SoftDeleteOf<TBase>
+> {
+  const fields: Record<string, FieldDefinition> = {};
+  for (const [key, field] of Object.entries(base.fields)) {
+    fields[key] = { ...field, required: false };
+  }
+
+  return buildSchema(base, name, fields, { refine: [] }) as unknown as InferredSchema<
+    TName,
+    { [K in keyof FieldsOf<TBase>]: OptionalBuilder<FieldsOf<TBase>[K]> },
+    TBase["timestamps"],
+    SoftDeleteOf<TBase>
+  >;
+}
+
+/**
+ * Creates a new schema with the fields of both schemas.
+ * Fields of `other` override fields of `base` with the same name.
+ * Indexes and refinements are concatenated.
+ * Timestamps and soft delete of `other` are used when enabled, otherwise those of `base`.
+ *
+ * @example
+ * ```typescript
+ * const customerSchema = mergeSchemas(contactSchema, "customers", addressSchema);
+ * ```
+ */
+export function mergeSchemas<
+  TBase extends ComposableSchema,
+  const TName extends string,
+  TOther extends ComposableSchema,
+>(
+  base: TBase,
+  name: TName,
+  other: TOther
+): InferredSchema<
+  TName,
+  MergeFields<FieldsOf<TBase>, FieldsOf<TOther>>,
+  TOther["timestamps"] extends false ? TBase["timestamps"] : TOther["timestamps"],
+  SoftDeleteOf<TOther> extends false ? SoftDeleteOf<TBase> : SoftDeleteOf<TOther>
+> {
+  return buildSchema(
+    base,
+    name,
+    { ...base.fields, ...other.fields },
+    {
+      timestamps: other.timestamps || base.timestamps,
+      softDelete: other.softDelete || base.softDelete || false,
+      indexes: [...base.indexes, ...other.indexes],
+      refine: [...(base.refine ?? []), ...(other.refine ?? [])],
+    }
+  ) as unknown as InferredSchema<
+    TName,
+    MergeFields<FieldsOf<TBase>, FieldsOf<TOther>>,
+    TOther["timestamps"] extends false ? TBase["timestamps"] : TOther["timestamps"],
+    SoftDeleteOf<TOther> extends false ? SoftDeleteOf<TBase> : SoftDeleteOf<TOther>
+  >;
+}
@@ -1,12 +1,27 @@
-import type { Schema, FieldDefinition, TimestampConfig, CompoundIndexDefinition } from "../types";
+import type {
+  Schema,
+  FieldDefinition,
+  TimestampConfig,
+  SoftDeleteConfig,
+  CompoundIndexDefinition,
+  SchemaRefinement,
+} from "../types";
+import type { InferBuilderType } from "./field-builder";
 import { resolveFields, type SchemaFieldsInput } from "./schema-builder";
 
-interface SchemaInput<
+// Document shape seen by schema-level refinements
+export type SchemaInputDocument<TFields extends SchemaFieldsInput> = {
+  [K in keyof TFields]?: InferBuilderType<TFields[K]>;
+};
+
+export interface SchemaInput<
   TFields extends SchemaFieldsInput,
   TTimestamps extends boolean | TimestampConfig = boolean | TimestampConfig,
+  TSoftDelete extends boolean | SoftDeleteConfig = boolean | SoftDeleteConfig,
 > {
   collection?: string;
   timestamps?: TTimestamps;
+  softDelete?: TSoftDelete;
   validation?: {
     enabled?: boolean;
     mode?: "strict" | "loose" | "off";
@@ -14,6 +29,8 @@ interface SchemaInput<
   connection?: string;
   fields: TFields;
   indexes?: CompoundIndexDefinition[];
+  refine?: SchemaRefinement<SchemaInputDocument<TFields>>[];
+  mergeUpdates?: boolean;
 }
 
 type InferSchemaFields<TFields extends SchemaFieldsInput> = {
@@ -34,12 +51,21 @@ type ResolvedTimestamps<T> = T extends true
     ? T
     : false;
 
+// Resolved soft delete config type
+type ResolvedSoftDelete<T> = T extends true
+  ? { deletedAt: "deletedAt" }
+  : T extends SoftDeleteConfig
+    ? T
+    : false;
+
 export type InferredSchema<
   TName extends string,
   TFields extends SchemaFieldsInput,
   TTimestamps extends boolean | TimestampConfig = true,
-> = Omit<Schema<TName, InferSchemaFields<TFields>>, "timestamps"> & {
+  TSoftDelete extends boolean | SoftDeleteConfig = false,
+> = Omit<Schema<TName, InferSchemaFields<TFields>>, "timestamps" | "softDelete"> & {
   readonly timestamps: ResolvedTimestamps<TTimestamps>;
+  readonly softDelete: ResolvedSoftDelete<TSoftDelete>;
   readonly __fields: TFields;
 };
 
@@ -47,10 +73,11 @@ export function schema<
   const TName extends string,
   const TFields extends SchemaFieldsInput,
   const TTimestamps extends boolean | TimestampConfig = false,
+  const TSoftDelete extends boolean | SoftDeleteConfig = false,
 >(
   name: TName,
-  definition: SchemaInput<TFields, TTimestamps>
-): InferredSchema<TName, TFields, TTimestamps> {
+  definition: SchemaInput<TFields, TTimestamps, TSoftDelete>
+): InferredSchema<TName, TFields, TTimestamps, TSoftDelete> {
   const resolvedFields = resolveFields(definition.fields);
 
   const timestamps: TimestampConfig | false =
@@ -60,20 +87,37 @@ export function schema<
         ? false
         : definition.timestamps;
 
+  const softDelete: SoftDeleteConfig | false =
+    definition.softDelete === true
+      ? { deletedAt: "deletedAt" }
+      : definition.softDelete === false || definition.softDelete === undefined
+        ? false
+        : { deletedAt: definition.softDelete.deletedAt ?? "deletedAt" };
+
   return {
     name,
     collection: definition.collection ?? name,
     timestamps,
-    validation: definition.validation ?? { enabled: false, mode: "off" },
+    softDelete,
+    validation: definition.validation ?? {},
     connection: definition.connection,
     fields: resolvedFields,
     indexes: definition.indexes ?? [],
-  } as unknown as InferredSchema<TName, TFields, TTimestamps>;
+    refine: definition.refine,
+    mergeUpdates: definition.mergeUpdates,
+  } as unknown as InferredSchema<TName, TFields, TTimestamps, TSoftDelete>;
 }
 
 // Alias for backwards compatibility
 export const defineSchema = schema;
 
+/**
+ * Whether a field accepts null. Non-required fields accept null unless declared with `.optional()`.
+ */
+export function isFieldNullable(field: FieldDefinition): boolean {
+  return field.nullable ?? !field.required;
+}
+
 export function getFieldIndexes(schema: Schema): Array<{
   field: string;
   options: NonNullable<FieldDefinition["index"]>;
@@ -1,8 +1,27 @@
-import type { FieldDefinition, IndexOptions } from "../types";
+import type { ObjectId, Decimal128, Long, Binary, UUID } from "mongodb";
+import type { FieldDefinition, IndexOptions, GeoPoint, GeoLineString, GeoPolygon } from "../types";
 
 // Branded type for TypeScript inference
 declare const __type: unique symbol;
 declare const __required: unique symbol;
+declare const __default: unique symbol;
+declare const __notNull: unique symbol;
+declare const __props: unique symbol;
+
+// Marks builders with a default value (optional on create, always present on read)
+export type WithDefault = { readonly [__default]: true };
+
+// Marks object builders with their property builders
+type WithProps<TProps> = { readonly [__props]: TProps };
+
+// Keeps the default and property markers of a builder across modifiers that change its type
+type KeepMarkers<TThis, TBuilder> = (TThis extends WithDefault
+  ? TBuilder & WithDefault
+  : TBuilder) &
+  (TThis extends WithProps<infer TProps> ? WithProps<TProps> : unknown);
+
+// Marks builders declared with .optional() (may be missing, but never null)
+export type WithoutNull = { readonly [__notNull]: true };
 
 export class FieldBuilder<T = unknown, TRequired extends boolean = false> {
   private definition: FieldDefinition<T>;
@@ -19,9 +38,22 @@ export class FieldBuilder<T = unknown, TRequired extends boolean = false> {
     };
   }
 
-  required(): FieldBuilder<T, true> {
+  required(): KeepMarkers<this, FieldBuilder<T, true>> {
     this.definition.required = true;
-    return this as unknown as FieldBuilder<T, true>;
+    return this as unknown as KeepMarkers<this, FieldBuilder<T, true>>;
+  }
+
+  /** May be missing, but never null */
+  optional(): KeepMarkers<this, FieldBuilder<T, false> & WithoutNull> {
+    this.definition.required = false;
+    this.definition.nullable = false;
+    return this as unknown as KeepMarkers<this, FieldBuilder<T, false> & WithoutNull>;
+  }
+
+  /** Accepts null; combine with .required() for "present but may be null" */
+  nullable(): KeepMarkers<this, FieldBuilder<T | null, TRequired>> {
+    this.definition.nullable = true;
+    return this as unknown as KeepMarkers<this, FieldBuilder<T | null, TRequired>>;
   }
 
   unique(): this {
@@ -29,9 +61,9 @@ export class FieldBuilder<T = unknown, TRequired extends boolean = false> {
     return this;
   }
 
-  default(value: T | "auto"): this {
+  default(value: T | "auto" | (() => T)): this & WithDefault {
     this.definition.default = value;
-    return this;
+    return this as this & WithDefault;
   }
 
   index(options?: IndexOptions): this {
@@ -39,6 +71,22 @@ export class FieldBuilder<T = unknown, TRequired extends boolean = false> {
     return this;
   }
 
+  refine(check: (value: T) => boolean, message?: string): this {
+    this.definition.effects = [
+      ...(this.definition.effects ?? []),
+      { kind: "refine", check, message },
+    ];
+    return this;
+  }
+
+  transform(fn: (value: T) => T): this {
+    this.definition.effects = [
+      ...(this.definition.effects ?? []),
+      { kind: "transform", apply: fn },
+    ];
+    return this;
+  }
+
   build(): FieldDefinition<T> {
     return { ...this.definition };
   }
@@ -47,8 +95,67 @@ export class FieldBuilder<T = unknown, TRequired extends boolean = false> {
 // Helper types for extracting field info
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 export type InferBuilderType<T> = T extends FieldBuilder<infer V, infer _R> ? V : unknown;
+// Discriminated union of variant field maps, tagged by the discriminator key
+export type InferUnionType<
+  TKey extends string,
+  TVariants extends Record<string, Record<string, unknown>>,
+> = {
+  [Tag in Extract<keyof TVariants, string>]: { [P in TKey]: Tag } & InferFieldsType<
+    Omit<TVariants[Tag], TKey>
+  >;
+}[Extract<keyof TVariants, string>];
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 export type IsBuilderRequired<T> = T extends FieldBuilder<infer _V, infer R> ? R : false;
+export type HasBuilderDefault<T> = T extends WithDefault ? true : false;
+
+// Stored value type of a builder: non-required fields accept null unless declared .optional()
+type InferStoredType<T> =
+  IsBuilderRequired<T> extends true
+    ? InferBuilderType<T>
+    : T extends WithoutNull
+      ? InferBuilderType<T>
+      : InferBuilderType<T> | null;
+
+// Keys of builders that are always present on read (required or with a default)
+type PresentKeys<TFields> = {
+  [K in keyof TFields]: IsBuilderRequired<TFields[K]> extends true
+    ? K
+    : HasBuilderDefault<TFields[K]> extends true
+      ? K
+      : never;
+}[keyof TFields];
+
+// Keys of builders that must be provided on create (required without a default)
+type MandatoryKeys<TFields> = {
+  [K in keyof TFields]: IsBuilderRequired<TFields[K]> extends true
+    ? HasBuilderDefault<TFields[K]> extends true
+      ? never
+      : K
+    : never;
+}[keyof TFields];
+
+// Builder map as a document type where only TKeys are non-optional
+type InferFieldsWithKeys<TFields, TKeys> = {
+  [K in keyof TFields as K extends TKeys ? K : never]: InferStoredType<TFields[K]>;
+} & {
+  [K in keyof TFields as K extends TKeys ? never : K]?: InferStoredType<TFields[K]>;
+};
+
+// Dot-notation paths of the fields declared without .required(), through nested objects
+export type OptionalFieldPaths<TFields, TDepth extends unknown[] = []> = TDepth["length"] extends 4
+  ? never
+  : {
+      [K in keyof TFields & string]-?:
+        | (IsBuilderRequired<TFields[K]> extends true ? never : K)
+        | (TFields[K] extends WithProps<infer TProps>
+            ? `${K}.${OptionalFieldPaths<TProps, [...TDepth, unknown]>}`
+            : never);
+    }[keyof TFields & string];
+
+// Document type of a builder map as read from the database
+export type InferFieldsType<TFields> = InferFieldsWithKeys<TFields, PresentKeys<TFields>>;
+// Document type of a builder map as accepted on create
+export type InferCreateFieldsType<TFields> = InferFieldsWithKeys<TFields, MandatoryKeys<TFields>>;
 
 export class StringFieldBuilder extends FieldBuilder<string> {
   constructor() {
@@ -117,6 +224,34 @@ export class NumberFieldBuilder extends FieldBuilder<number> {
   }
 }
 
+export class IntFieldBuilder extends FieldBuilder<number> {
+  constructor() {
+    super("int");
+  }
+
+  min(value: number): this {
+    (this as unknown as { definition: FieldDefinition<number> }).definition.min = value;
+    return this;
+  }
+
+  max(value: number): this {
+    (this as unknown as { definition: FieldDefinition<number> }).definition.max = value;
+    return this;
+  }
+}
+
+export class LongFieldBuilder extends FieldBuilder<Long> {
+  constructor() {
+    super("long");
+  }
+}
+
+export class DecimalFieldBuilder extends FieldBuilder<Decimal128> {
+  constructor() {
+    super("decimal");
+  }
+}
+
 export class BooleanFieldBuilder extends FieldBuilder<boolean> {
   constructor() {
     super("boolean");
@@ -135,6 +270,75 @@ export class ObjectIdFieldBuilder extends FieldBuilder<unknown> {
   }
 }
 
+export class BinaryFieldBuilder extends FieldBuilder<Binary> {
+  constructor() {
+    super("binary");
+  }
+}
+
+export class UuidFieldBuilder extends FieldBuilder<UUID> {
+  constructor() {
+    super("uuid");
+  }
+}
+
+export class PointFieldBuilder extends FieldBuilder<GeoPoint> {
+  constructor() {
+    super("point");
+    this.index({ type: "2dsphere" });
+  }
+}
+
+export class LineStringFieldBuilder extends FieldBuilder<GeoLineString> {
+  constructor() {
+    super("lineString");
+    this.index({ type: "2dsphere" });
+  }
+}
+
+export class PolygonFieldBuilder extends FieldBuilder<GeoPolygon> {
+  constructor() {
+    super("polygon");
+    this.index({ type: "2dsphere" });
+  }
+}
+
+// Stored value of a reference field
+type RefValue<TNullable extends boolean> = TNullable extends true ? ObjectId | null : ObjectId;
+
+export class RefFieldBuilder<
+  TTarget extends string,
+  TRequired extends boolean = false,
+  TNullable extends boolean = false,
+> extends FieldBuilder<RefValue<TNullable>, TRequired> {
+  constructor(target: TTarget) {
+    super("objectId");
+    (this as unknown as { definition: FieldDefinition<ObjectId> }).definition.ref = target;
+  }
+
+  required(): KeepMarkers<this, RefFieldBuilder<TTarget, true, TNullable>> {
+    super.required();
+    return this as unknown as KeepMarkers<this, RefFieldBuilder<TTarget, true, TNullable>>;
+  }
+
+  optional(): KeepMarkers<this, RefFieldBuilder<TTarget, false, false> & WithoutNull> {
+    super.optional();
+    return this as unknown as KeepMarkers<
+      this,
+      RefFieldBuilder<TTarget, false, false> & WithoutNull
+    >;
+  }
+
+  nullable(): KeepMarkers<this, RefFieldBuilder<TTarget, TRequired, true>> {
+    super.nullable();
+    return this as unknown as KeepMarkers<this, RefFieldBuilder<TTarget, TRequired, true>>;
+  }
+
+  build(): FieldDefinition<RefValue<TNullable>> & { ref: TTarget } {
+    return super.build() as FieldDefinition<RefValue<TNullable>> & { ref: TTarget };
+  }
+}
+
 export class ArrayFieldBuilder<T> extends FieldBuilder<T[]> {
   constructor(items: FieldDefinition) {
     super("array");
@@ -142,7 +346,13 @@ export class ArrayFieldBuilder<T> extends FieldBuilder<T[]> {
   }
 }
 
-export class ObjectFieldBuilder<T extends Record<string, unknown>> extends FieldBuilder<T> {
+export class ObjectFieldBuilder<
+  T extends Record<string, unknown>,
+  TProps = unknown,
+> extends FieldBuilder<T> {
+  // Property builders, kept for path inference (not used at runtime)
+  declare readonly [__props]: TProps;
+
   constructor(properties: Record<string, FieldDefinition>) {
     super("object");
     (this as unknown as { definition: FieldDefinition<T> }).definition.properties = properties;
@@ -155,6 +365,15 @@ export class JsonFieldBuilder extends FieldBuilder<unknown> {
   }
 }
 
+export class UnionFieldBuilder<T> extends FieldBuilder<T> {
+  constructor(discriminator: string, variants: Record<string, Record<string, FieldDefinition>>) {
+    super("union");
+    const definition = (this as unknown as { definition: FieldDefinition<T> }).definition;
+    definition.discriminator = discriminator;
+    definition.variants = variants;
+  }
+}
+
 export class LiteralFieldBuilder<T extends string | number | boolean> extends FieldBuilder<T> {
   constructor(value: T) {
     super("literal");
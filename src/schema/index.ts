@@ -1,3 +1,4 @@
-export { schema, defineSchema, getFieldIndexes } from "./define-schema";
+export { schema, defineSchema, getFieldIndexes, isFieldNullable } from "./define-schema";
 export { s } from "./schema-builder";
 export * from "./field-builder";
+export { extendSchema, pickSchema, omitSchema, partialSchema, mergeSchemas } from "./compose";
@@ -2,15 +2,28 @@ import type { FieldDefinition, IndexOptions } from "../types";
 import {
   StringFieldBuilder,
   NumberFieldBuilder,
+  IntFieldBuilder,
+  LongFieldBuilder,
+  DecimalFieldBuilder,
   BooleanFieldBuilder,
   DateFieldBuilder,
   ObjectIdFieldBuilder,
+  BinaryFieldBuilder,
+  UuidFieldBuilder,
+  PointFieldBuilder,
+  LineStringFieldBuilder,
+  PolygonFieldBuilder,
+  RefFieldBuilder,
   ArrayFieldBuilder,
   ObjectFieldBuilder,
   JsonFieldBuilder,
   LiteralFieldBuilder,
   EnumFieldBuilder,
+  UnionFieldBuilder,
   type FieldBuilder,
+  type InferBuilderType,
+  type InferFieldsType,
+  type InferUnionType,
 } from "./field-builder";
 
 type FieldBuilderResult = {
@@ -43,6 +56,18 @@ export const s = {
     return new NumberFieldBuilder();
   },
 
+  int(): IntFieldBuilder {
+    return new IntFieldBuilder();
+  },
+
+  long(): LongFieldBuilder {
+    return new LongFieldBuilder();
+  },
+
+  decimal(): DecimalFieldBuilder {
+    return new DecimalFieldBuilder();
+  },
+
   boolean(): BooleanFieldBuilder {
     return new BooleanFieldBuilder();
   },
@@ -55,18 +80,44 @@ export const s = {
     return new ObjectIdFieldBuilder();
   },
 
-  array<T>(items: { build(): FieldDefinition }): ArrayFieldBuilder<T> {
-    return new ArrayFieldBuilder<T>(items.build());
+  binary(): BinaryFieldBuilder {
+    return new BinaryFieldBuilder();
   },
 
-  object<T extends Record<string, unknown>>(
-    properties: Record<string, { build(): FieldDefinition }>
-  ): ObjectFieldBuilder<T> {
+  uuid(): UuidFieldBuilder {
+    return new UuidFieldBuilder();
+  },
+
+  point(): PointFieldBuilder {
+    return new PointFieldBuilder();
+  },
+
+  lineString(): LineStringFieldBuilder {
+    return new LineStringFieldBuilder();
+  },
+
+  polygon(): PolygonFieldBuilder {
+    return new PolygonFieldBuilder();
+  },
+
+  ref<const TTarget extends string>(target: TTarget): RefFieldBuilder<TTarget> {
+    return new RefFieldBuilder<TTarget>(target);
+  },
+
+  array<const TItem extends { build(): FieldDefinition }>(
+    items: TItem
+  ): ArrayFieldBuilder<InferBuilderType<TItem>> {
+    return new ArrayFieldBuilder<InferBuilderType<TItem>>(items.build());
+  },
+
+  object<const TProps extends Record<string, { build(): FieldDefinition }>>(
+    properties: TProps
+  ): ObjectFieldBuilder<InferFieldsType<TProps>, TProps> {
     const resolvedProps: Record<string, FieldDefinition> = {};
     for (const [key, builder] of Object.entries(properties)) {
       resolvedProps[key] = builder.build();
     }
-    return new ObjectFieldBuilder<T>(resolvedProps);
+    return new ObjectFieldBuilder<InferFieldsType<TProps>, TProps>(resolvedProps);
   },
 
   json(): JsonFieldBuilder {
@@ -80,6 +131,21 @@ export const s = {
   enum<const E extends readonly string[]>(values: E): EnumFieldBuilder<E[number]> {
     return new EnumFieldBuilder<E[number]>(values);
   },
+
+  union<
+    const K extends string,
+    const V extends Record<string, Record<string, { build(): FieldDefinition }>>,
+  >(discriminator: K, variants: V): UnionFieldBuilder<InferUnionType<K, V>> {
+    const resolvedVariants: Record<string, Record<string, FieldDefinition>> = {};
+    for (const [tag, fields] of Object.entries(variants)) {
+      const resolvedFields: Record<string, FieldDefinition> = {};
+      for (const [key, builder] of Object.entries(fields)) {
+        resolvedFields[key] = builder.build();
+      }
+      resolvedVariants[tag] = resolvedFields;
+    }
+    return new UnionFieldBuilder<InferUnionType<K, V>>(discriminator, resolvedVariants);
+  },
 };
 
 export { resolveFields, type SchemaFieldsInput };
@@ -1,30 +1,80 @@
 import type {
   ObjectId,
+  Decimal128,
+  Long,
+  Binary,
+  UUID,
   Document,
-  Filter,
-  Sort,
+  Condition,
+  SortDirection,
   MongoClientOptions,
   UpdateOptions as MongoUpdateOptions,
   DeleteOptions as MongoDeleteOptions,
+  ReplaceOptions as MongoReplaceOptions,
+  FindOneAndUpdateOptions as MongoFindOneAndUpdateOptions,
+  FindOneAndDeleteOptions as MongoFindOneAndDeleteOptions,
   InsertOneOptions,
   BulkWriteOptions,
   FindOptions as MongoFindOptions,
   CountDocumentsOptions,
+  DistinctOptions as MongoDistinctOptions,
   AggregateOptions,
+  ChangeStreamDocument,
+  ChangeStreamOptions,
+  ChangeStreamUpdateDocument,
   ClientSession,
+  CollationOptions,
+  Hint,
+  WriteError,
+  ResumeToken,
+  UpdateDescription,
 } from "mongodb";
 import type { z } from "zod";
+import type {
+  InferFieldsType,
+  InferCreateFieldsType,
+  OptionalFieldPaths,
+} from "../schema/field-builder";
+import type { DocumentStream } from "../manager/document-stream";
+import type { ChangeEventStream } from "../manager/change-stream";
 
 export type FieldType =
   | "string"
   | "number"
+  | "int"
+  | "long"
+  | "decimal"
   | "boolean"
   | "date"
   | "objectId"
+  | "binary"
+  | "uuid"
+  | "point"
+  | "lineString"
+  | "polygon"
   | "array"
   | "object"
   | "json"
-  | "literal";
+  | "literal"
+  | "union";
+
+/** GeoJSON position in [longitude, latitude] order */
+export type GeoPosition = [longitude: number, latitude: number];
+
+export interface GeoPoint {
+  type: "Point";
+  coordinates: GeoPosition;
+}
+
+export interface GeoLineString {
+  type: "LineString";
+  coordinates: GeoPosition[];
+}
+
+export interface GeoPolygon {
+  type: "Polygon";
+  coordinates: GeoPosition[][];
+}
 
 export interface IndexOptions {
   type?: 1 | -1 | "text" | "2dsphere" | "2d";
@@ -50,7 +100,9 @@ export interface FieldDefinition<T = unknown> {
   type: FieldType;
   required: boolean;
   unique: boolean;
-  default?: T | "auto";
+  // Whether null is accepted; defaults to true for non-required fields
+  nullable?: boolean;
+  default?: T | "auto" | (() => T);
   index?: IndexOptions;
   enum?: readonly string[];
   min?: number;
@@ -63,6 +115,23 @@ export interface FieldDefinition<T = unknown> {
   items?: FieldDefinition;
   properties?: Record<string, FieldDefinition>;
   literal?: string | number | boolean;
+  ref?: string;
+  discriminator?: string;
+  variants?: Record<string, Record<string, FieldDefinition>>;
+  effects?: FieldEffect<T>[];
+}
+
+// Custom check or transform from .refine()/.transform(), applied in declaration order
+export type FieldEffect<T = unknown> =
+  | { kind: "refine"; check(value: T): boolean; message?: string }
+  | { kind: "transform"; apply(value: T): T };
+
+// Cross-field rule checked against the whole document on create
+export interface SchemaRefinement<T = Document> {
+  check(doc: T): boolean;
+  message?: string;
+  /** Field path the error is reported on */
+  path?: string[];
 }
 
 export interface TimestampConfig {
@@ -70,8 +139,14 @@ export interface TimestampConfig {
   updatedAt?: string;
 }
 
+export interface SoftDeleteConfig {
+  deletedAt?: string;
+}
+
 export interface ValidationConfig {
+  /** Set to false to skip runtime validation for this schema */
   enabled?: boolean;
+  /** Overrides the client-wide validation mode for this schema */
   mode?: "strict" | "loose" | "off";
 }
 
@@ -80,10 +155,13 @@ export interface SchemaDefinition<
 > {
   collection?: string;
   timestamps?: boolean | TimestampConfig;
+  softDelete?: boolean | SoftDeleteConfig;
   validation?: ValidationConfig;
   connection?: string;
   fields: TFields;
   indexes?: CompoundIndexDefinition[];
+  refine?: SchemaRefinement[];
+  mergeUpdates?: boolean;
 }
 
 export interface Schema<
@@ -93,10 +171,14 @@ export interface Schema<
   name: TName;
   collection: string;
   timestamps: TimestampConfig | false;
+  softDelete?: SoftDeleteConfig | false;
   validation: ValidationConfig;
   connection?: string;
   fields: TFields;
   indexes: CompoundIndexDefinition[];
+  refine?: SchemaRefinement[];
+  /** Merge nested objects of plain updates instead of replacing them */
+  mergeUpdates?: boolean;
 }
 
 export interface ConnectionConfig {
@@ -127,29 +209,40 @@ export type InferFieldType<T extends FieldDefinition> = T extends { type: "strin
   ? T extends { enum: readonly (infer E)[] }
     ? E
     : string
-  : T extends { type: "number" }
+  : T extends { type: "number" | "int" }
     ? number
-    : T extends { type: "boolean" }
-      ? boolean
-      : T extends { type: "date" }
-        ? Date
-        : T extends { type: "objectId" }
-          ? ObjectId
-          : T extends { type: "array"; items: infer I extends FieldDefinition }
-            ? InferFieldType<I>[]
-            : T extends {
-                  type: "object";
-                  properties: infer P extends Record<string, FieldDefinition>;
-                }
-              ? { [K in keyof P]: InferFieldType<P[K]> }
-              : T extends { type: "json" }
-                ? unknown
-                : T extends { type: "literal"; literal: infer L }
-                  ? L
-                  : unknown;
-
-// Infer type from field builder
-type InferBuilderValue<T> = T extends { build(): FieldDefinition<infer V> } ? V : unknown;
+    : T extends { type: "long" }
+      ? Long
+      : T extends { type: "decimal" }
+        ? Decimal128
+        : T extends { type: "boolean" }
+          ? boolean
+          : T extends { type: "date" }
+            ? Date
+            : T extends { type: "objectId" }
+              ? ObjectId
+              : T extends { type: "uuid" }
+                ? UUID
+                : T extends { type: "binary" }
+                  ? Binary
+                  : T extends { type: "point" }
+                    ? GeoPoint
+                    : T extends { type: "lineString" }
+                      ? GeoLineString
+                      : T extends { type: "polygon" }
+                        ? GeoPolygon
+                        : T extends { type: "array"; items: infer I extends FieldDefinition }
+                          ? InferFieldType<I>[]
+                          : T extends {
+                                type: "object";
+                                properties: infer P extends Record<string, FieldDefinition>;
+                              }
+                            ? { [K in keyof P]: InferFieldType<P[K]> }
+                            : T extends { type: "json" }
+                              ? unknown
+                              : T extends { type: "literal"; literal: infer L }
+                                ? L
+                                : unknown;
 
 // Extract timestamp field names from schema
 type TimestampFields<T extends Schema> = T["timestamps"] extends false
@@ -162,31 +255,220 @@ type TimestampFields<T extends Schema> = T["timestamps"] extends false
 type TimestampFieldsType<T extends Schema> = T["timestamps"] extends false
   ? object
   : T["timestamps"] extends { createdAt?: infer C; updatedAt?: infer U }
-    ? { [K in C extends string ? C : "createdAt"]?: Date } & {
-        [K in U extends string ? U : "updatedAt"]?: Date;
+    ? { [K in C extends string ? C : "createdAt"]: Date } & {
+        [K in U extends string ? U : "updatedAt"]: Date;
       }
-    : { createdAt?: Date; updatedAt?: Date };
+    : { createdAt: Date; updatedAt: Date };
+
+// Extract the soft delete field name from schema
+type SoftDeleteField<T extends Schema> = T["softDelete"] extends { deletedAt?: infer D }
+  ? D extends string
+    ? D
+    : "deletedAt"
+  : never;
+
+// Soft delete field as object type (null/absent while the document is live)
+type SoftDeleteFieldType<T extends Schema> = [SoftDeleteField<T>] extends [never]
+  ? object
+  : { [K in SoftDeleteField<T>]?: Date | null };
 
 // Main type inference - includes _id and timestamp fields automatically
 // _id is always present in MongoDB documents (required, not optional)
+// Required fields, fields with defaults and timestamps are non-optional on read
 export type InferSchemaType<T extends Schema> = { _id: ObjectId } & (T extends {
   __fields: infer TFields;
 }
-  ? { [K in keyof TFields]?: InferBuilderValue<TFields[K]> }
+  ? InferFieldsType<TFields>
   : {
       [K in keyof T["fields"]]?: InferFieldType<T["fields"][K]>;
     }) &
-  TimestampFieldsType<T>;
+  TimestampFieldsType<T> &
+  SoftDeleteFieldType<T>;
 
-export type CreateInput<T extends Schema> = Omit<InferSchemaType<T>, "_id" | TimestampFields<T>>;
+// Required fields without a default are mandatory on create, everything else is optional
+export type CreateInput<T extends Schema> = T extends { __fields: infer TFields }
+  ? InferCreateFieldsType<TFields>
+  : Omit<InferSchemaType<T>, "_id" | TimestampFields<T> | SoftDeleteField<T>>;
 
 export type UpdateInput<T extends Schema> = Partial<
-  Omit<InferSchemaType<T>, "_id" | TimestampFields<T>>
+  Omit<InferSchemaType<T>, "_id" | TimestampFields<T> | SoftDeleteField<T>>
 >;
 
-export type WhereInput<T extends Schema> = Filter<InferSchemaType<T>>;
+// Partial at every level of nested objects; arrays and BSON values are kept whole
+type DeepPartial<T> = T extends PathLeaf | readonly unknown[]
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+// Plain update with `merge: true`: nested objects only need the fields to set
+export type MergeUpdateInput<T extends Schema> = DeepPartial<UpdateInput<T>>;
+
+// Values that are stored as a whole and have no queryable sub-paths
+type PathLeaf = Date | ObjectId | Decimal128 | Long | Binary | UUID | RegExp | Uint8Array;
+
+// Dot-notation paths below the top level ("address.city", "items.sku"), up to 4 levels deep.
+// Array elements are addressed without an index, like MongoDB does for arrays of documents.
+type NestedPaths<T, TDepth extends unknown[] = []> = TDepth["length"] extends 4
+  ? never
+  : T extends readonly (infer E)[]
+    ? NestedPaths<E, TDepth>
+    : T extends PathLeaf
+      ? never
+      : T extends object
+        ? {
+            [K in keyof T & string]-?: unknown extends T[K]
+              ? `${K}.${string}`
+              :
+                  | (TDepth["length"] extends 0 ? never : K)
+                  | `${K}.${NestedPaths<NonNullable<T[K]>, [...TDepth, unknown]>}`;
+          }[keyof T & string]
+        : never;
+
+// Value type at a dot-notation path
+type PathValue<T, P extends string> = T extends readonly (infer E)[]
+  ? PathValue<E, P>
+  : P extends keyof T
+    ? T[P]
+    : P extends `${infer K}.${infer Rest}`
+      ? K extends keyof T
+        ? unknown extends T[K]
+          ? unknown
+          : PathValue<NonNullable<T[K]>, Rest>
+        : never
+      : never;
+
+// Every queryable path of a schema: top-level fields plus nested dot-notation paths
+export type FieldPath<T extends Schema> =
+  | (keyof InferSchemaType<T> & string)
+  | NestedPaths<InferSchemaType<T>>;
+
+// Logical and evaluation operators allowed at the root of a filter
+interface WhereRootOperators<T extends Schema> {
+  $and?: WhereInput<T>[];
+  $or?: WhereInput<T>[];
+  $nor?: WhereInput<T>[];
+  $text?: {
+    $search: string;
+    $language?: string;
+    $caseSensitive?: boolean;
+    $diacriticSensitive?: boolean;
+  };
+  $where?: string | ((this: InferSchemaType<T>) => boolean);
+  $expr?: Document;
+  $jsonSchema?: Document;
+  $comment?: string | Document;
+}
+
+// Filter with typed top-level and dot-notation paths; unknown paths are rejected
+export type WhereInput<T extends Schema> = {
+  [P in FieldPath<T>]?: Condition<PathValue<InferSchemaType<T>, P>>;
+} & WhereRootOperators<T>;
+
+// Segment addressing array elements in update paths: "$", "$[]", "$[identifier]" or an index
+type ArraySegment = "$" | `$[${string}]` | `${number}`;
+
+// Dot-notation paths below the top level that update operators can write, up to 4 levels deep.
+// Unlike in filters, array elements must be addressed with a positional operator or an index.
+type NestedUpdatePaths<T, TDepth extends unknown[] = []> = TDepth["length"] extends 4
+  ? never
+  : T extends PathLeaf
+    ? never
+    : T extends readonly (infer E)[]
+      ? ArraySegment | `${ArraySegment}.${NestedUpdatePaths<NonNullable<E>, [...TDepth, unknown]>}`
+      : T extends object
+        ? {
+            [K in keyof T & string]-?: unknown extends T[K]
+              ? `${K}.${string}`
+              :
+                  | (TDepth["length"] extends 0 ? never : K)
+                  | `${K}.${NestedUpdatePaths<NonNullable<T[K]>, [...TDepth, unknown]>}`;
+          }[keyof T & string]
+        : never;
+
+// Value type at an update path
+type UpdatePathValue<T, P extends string> = T extends readonly (infer E)[]
+  ? P extends ArraySegment
+    ? E
+    : P extends `${infer Segment}.${infer Rest}`
+      ? Segment extends ArraySegment
+        ? UpdatePathValue<NonNullable<E>, Rest>
+        : never
+      : never
+  : P extends keyof T
+    ? T[P]
+    : P extends `${infer K}.${infer Rest}`
+      ? K extends keyof T
+        ? unknown extends T[K]
+          ? unknown
+          : UpdatePathValue<NonNullable<T[K]>, Rest>
+        : never
+      : never;
+
+// Paths that can be written by update operators
+type UpdatePath<T extends Schema> = Exclude<
+  (keyof InferSchemaType<T> & string) | NestedUpdatePaths<InferSchemaType<T>>,
+  "_id"
+>;
+
+// Paths whose value type matches TValue
+type PathsOfType<T extends Schema, TValue> = {
+  [P in UpdatePath<T>]-?: [NonNullable<UpdatePathValue<InferSchemaType<T>, P>>] extends [never]
+    ? never
+    : NonNullable<UpdatePathValue<InferSchemaType<T>, P>> extends TValue
+      ? P
+      : never;
+}[UpdatePath<T>];
+
+// Paths of fields declared without .required() (the only ones that can be unset)
+type OptionalPath<T extends Schema> = T extends { __fields: infer TFields }
+  ? OptionalFieldPaths<TFields>
+  : {
+      [P in UpdatePath<T>]-?: undefined extends UpdatePathValue<InferSchemaType<T>, P> ? P : never;
+    }[UpdatePath<T>];
+
+// Element type of the array stored at a path
+type PathElement<T extends Schema, P extends string> =
+  NonNullable<UpdatePathValue<InferSchemaType<T>, P>> extends readonly (infer E)[] ? E : never;
+
+type UpdateValues<T extends Schema> = {
+  [P in UpdatePath<T>]?: UpdatePathValue<InferSchemaType<T>, P>;
+};
+
+// Update document with operators, typed against the schema paths
+export interface UpdateOperators<T extends Schema> {
+  $set?: UpdateValues<T>;
+  $setOnInsert?: UpdateValues<T>;
+  $min?: UpdateValues<T>;
+  $max?: UpdateValues<T>;
+  $inc?: { [P in PathsOfType<T, number | Decimal128 | Long>]?: number | Decimal128 | Long };
+  $mul?: { [P in PathsOfType<T, number | Decimal128 | Long>]?: number | Decimal128 | Long };
+  $unset?: { [P in OptionalPath<T>]?: "" | 1 | true };
+  $rename?: { [P in OptionalPath<T>]?: string };
+  $currentDate?: { [P in PathsOfType<T, Date>]?: true | { $type: "date" | "timestamp" } };
+  $push?: {
+    [P in PathsOfType<T, readonly unknown[]>]?:
+      | PathElement<T, P>
+      | {
+          $each: PathElement<T, P>[];
+          $position?: number;
+          $slice?: number;
+          $sort?: 1 | -1 | Document;
+        };
+  };
+  $addToSet?: {
+    [P in PathsOfType<T, readonly unknown[]>]?: PathElement<T, P> | { $each: PathElement<T, P>[] };
+  };
+  $pull?: {
+    [P in PathsOfType<T, readonly unknown[]>]?:
+      | Condition<PathElement<T, P>>
+      | { [K in keyof PathElement<T, P>]?: Condition<PathElement<T, P>[K]> };
+  };
+  $pullAll?: { [P in PathsOfType<T, readonly unknown[]>]?: PathElement<T, P>[] };
+  $pop?: { [P in PathsOfType<T, readonly unknown[]>]?: 1 | -1 };
+}
 
-// SelectInput includes _id, schema fields, and timestamp fields
+// SelectInput includes _id, schema fields, timestamp fields and the soft delete field
 export type SelectInput<T extends Schema> = {
   _id?: boolean | 0 | 1;
 } & {
@@ -197,41 +479,419 @@ export type SelectInput<T extends Schema> = {
       ? { [K in C extends string ? C : "createdAt"]?: boolean | 0 | 1 } & {
           [K in U extends string ? U : "updatedAt"]?: boolean | 0 | 1;
         }
-      : { createdAt?: boolean | 0 | 1; updatedAt?: boolean | 0 | 1 });
+      : { createdAt?: boolean | 0 | 1; updatedAt?: boolean | 0 | 1 }) & {
+    [K in SoftDeleteField<T>]?: boolean | 0 | 1;
+  } & {
+    [P in NestedPaths<InferSchemaType<T>>]?: boolean | 0 | 1;
+  };
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export type SortInput<T extends Schema> = Sort;
+// SortInput accepts top-level and dot-notation paths of the schema
+export type SortInput<T extends Schema> = {
+  [P in FieldPath<T>]?: SortDirection;
+};
 
-export interface FindOptions<T extends Schema> extends Omit<
-  MongoFindOptions,
-  "projection" | "sort"
-> {
+export interface SoftDeleteQueryOptions {
+  /** Include soft-deleted documents in the results */
+  withDeleted?: boolean;
+  /** Only return soft-deleted documents */
+  onlyDeleted?: boolean;
+}
+
+// Extract the target schema name from a reference field builder
+type RefTarget<TBuilder> = TBuilder extends { build(): { ref: infer R extends string } }
+  ? R
+  : never;
+
+// Reference fields of a schema (declared with `s.ref()`)
+type RefFields<T extends Schema> = T extends { __fields: infer TFields }
+  ? { [K in keyof TFields]: [RefTarget<TFields[K]>] extends [never] ? never : K }[keyof TFields]
+  : never;
+
+// IncludeInput lists the reference fields that can be resolved
+export type IncludeInput<T extends Schema> = {
+  [K in RefFields<T>]?: boolean;
+};
+
+// Reference fields marked with `true` in an include input
+type IncludedKeys<TInclude> = {
+  [K in keyof TInclude]: TInclude[K] extends true ? K : never;
+}[keyof TInclude];
+
+// The document type a reference field resolves to
+type ResolvedRef<T extends Schema, TSchemas extends readonly Schema[], K> = T extends {
+  __fields: infer TFields;
+}
+  ? K extends keyof TFields
+    ? [Extract<TSchemas[number], { name: RefTarget<TFields[K]> }>] extends [never]
+      ? unknown
+      : InferSchemaType<Extract<TSchemas[number], { name: RefTarget<TFields[K]> }>> | null
+    : never
+  : never;
+
+// Result type of a find with `include`: referenced ids are replaced by their documents
+export type InferIncludeType<T extends Schema, TSchemas extends readonly Schema[], TInclude> = [
+  IncludedKeys<TInclude>,
+] extends [never]
+  ? InferSchemaType<T>
+  : Omit<InferSchemaType<T>, IncludedKeys<TInclude>> & {
+      [K in keyof Pick<
+        InferSchemaType<T>,
+        IncludedKeys<TInclude> & keyof InferSchemaType<T>
+      >]: ResolvedRef<T, TSchemas, K>;
+    };
+
+// Keys marked with `true`/`1` (inclusion) or `false`/`0` (exclusion) in a select input
+type SelectKeys<TSelect, TValue> = {
+  [K in keyof TSelect]-?: TSelect[K] extends TValue ? K : never;
+}[keyof TSelect];
+
+// Top-level field of a dot-notation path
+type RootKey<P> = P extends `${infer K}.${string}` ? K : P;
+
+// Result type of a find with `select`: inclusion picks the selected fields plus _id,
+// exclusion omits the deselected fields (nested paths keep their whole top-level field)
+export type InferSelectType<TDoc, TSelect> = [SelectKeys<TSelect, boolean | 0 | 1>] extends [never]
+  ? TDoc
+  : [SelectKeys<Omit<TSelect, "_id">, true | 1>] extends [never]
+    ? Omit<TDoc, SelectKeys<TSelect, false | 0>>
+    : Pick<
+        TDoc,
+        (
+          | RootKey<SelectKeys<TSelect, true | 1>>
+          | (TSelect extends { _id: false | 0 } ? never : "_id")
+        ) &
+          keyof TDoc
+      >;
+
+export interface FindOptions<T extends Schema>
+  extends Omit<MongoFindOptions, "projection" | "sort">, SoftDeleteQueryOptions {
   select?: SelectInput<T>;
   sort?: SortInput<T>;
   skip?: number;
   limit?: number;
+  include?: IncludeInput<T>;
+}
+
+export interface PaginateOptions<T extends Schema> extends Omit<FindOptions<T>, "skip" | "limit"> {
+  /** Page size when paging forward (default: 20) */
+  first?: number;
+  /** Return the documents after this cursor */
+  after?: string | null;
+  /** Page size when paging backward */
+  last?: number;
+  /** Return the documents before this cursor */
+  before?: string | null;
+}
+
+export interface PageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  /** Cursor of the first item, or null on an empty page */
+  startCursor: string | null;
+  /** Cursor of the last item, or null on an empty page */
+  endCursor: string | null;
+}
+
+export interface PaginateResult<T> {
+  items: T[];
+  pageInfo: PageInfo;
+}
+
+export interface PageOptions<T extends Schema> extends Omit<FindOptions<T>, "skip" | "limit"> {
+  /** 1-based page number (default: 1) */
+  page?: number;
+  /** Page size (default: 20) */
+  perPage?: number;
+}
+
+export interface PageResult<T> {
+  items: T[];
+  /** Number of documents matching the filter across all pages */
+  total: number;
+  page: number;
+  perPage: number;
+  pageCount: number;
 }
 
 export interface CreateOptions extends InsertOneOptions {
   timestamps?: boolean;
+  /** Overrides the validation mode for this call */
+  validate?: ValidationMode;
 }
 
 export interface CreateManyOptions extends BulkWriteOptions {
   timestamps?: boolean;
+  /** Overrides the validation mode for this call */
+  validate?: ValidationMode;
+  /** Number of documents per insertMany (default: 1000) */
+  chunkSize?: number;
+  /** Skip documents that fail validation and list them in `errors` instead of throwing */
+  continueOnValidationError?: boolean;
+}
+
+export interface CreateManyResult {
+  acknowledged: boolean;
+  insertedCount: number;
+  /** Ids of inserted documents, by input index */
+  insertedIds: Record<number, ObjectId>;
+  /** Documents that failed validation or were rejected by the server, by input index */
+  errors: OperationError[];
 }
 
 export interface UpdateOptions extends MongoUpdateOptions {
   timestamps?: boolean;
+  /** Overrides the validation mode for this call */
+  validate?: ValidationMode;
+  /** Set nested fields of a plain update by dot path instead of replacing whole objects (defaults to the schema config) */
+  merge?: boolean;
+}
+
+export interface ReplaceOptions extends MongoReplaceOptions {
+  timestamps?: boolean;
+  /** Overrides the validation mode for this call */
+  validate?: ValidationMode;
+}
+
+export interface UpsertOptions extends Omit<
+  MongoFindOneAndUpdateOptions,
+  "upsert" | "returnDocument" | "projection" | "sort" | "includeResultMetadata"
+> {
+  timestamps?: boolean;
+  /** Overrides the validation mode for this call */
+  validate?: ValidationMode;
+}
+
+// Upsert data: `create` is inserted when nothing matches, `update` is applied in both cases
+export interface UpsertInput<T extends Schema> {
+  create: CreateInput<T>;
+  update: UpdateInput<T> | UpdateOperators<T>;
 }
 
 export interface DeleteOptions extends MongoDeleteOptions {
+  /** Set the soft delete field instead of removing the document (defaults to the schema config) */
   soft?: boolean;
 }
 
-export interface CountOptions extends CountDocumentsOptions {}
+export interface FindOneAndUpdateOptions<T extends Schema>
+  extends
+    Omit<
+      MongoFindOneAndUpdateOptions,
+      "projection" | "sort" | "returnDocument" | "includeResultMetadata"
+    >,
+    SoftDeleteQueryOptions {
+  select?: SelectInput<T>;
+  /** Picks the document to modify when the filter matches several */
+  sort?: SortInput<T>;
+  /** Return the document as it was before the write or after it (default: "before") */
+  returnDocument?: "before" | "after";
+  timestamps?: boolean;
+  /** Overrides the validation mode for this call */
+  validate?: ValidationMode;
+  /** Set nested fields of a plain update by dot path instead of replacing whole objects (defaults to the schema config) */
+  merge?: boolean;
+}
+
+export interface FindOneAndReplaceOptions<T extends Schema> extends Omit<
+  FindOneAndUpdateOptions<T>,
+  "merge" | "arrayFilters"
+> {}
+
+export interface FindOneAndDeleteOptions<T extends Schema> extends Omit<
+  MongoFindOneAndDeleteOptions,
+  "projection" | "sort" | "includeResultMetadata"
+> {
+  select?: SelectInput<T>;
+  /** Picks the document to delete when the filter matches several */
+  sort?: SortInput<T>;
+  /** Set the soft delete field instead of removing the document (defaults to the schema config) */
+  soft?: boolean;
+}
+
+export interface CountOptions extends CountDocumentsOptions, SoftDeleteQueryOptions {}
+
+export interface DistinctOptions extends MongoDistinctOptions, SoftDeleteQueryOptions {}
+
+// Values returned by distinct() for a path: arrays are flattened into their elements
+export type DistinctValue<T extends Schema, P extends string> = Exclude<
+  ArrayElement<PathValue<InferSchemaType<T>, P>>,
+  undefined
+>;
+
+type ArrayElement<T> = T extends readonly (infer E)[] ? E : T;
 
 export interface AggregateOpts extends AggregateOptions {}
 
+// Single write of a bulkWrite batch, in the shape of the driver's bulk operations
+export type BulkWriteOperation<T extends Schema> =
+  | { insertOne: { document: CreateInput<T> } }
+  | { updateOne: BulkUpdateModel<T> }
+  | { updateMany: BulkUpdateModel<T> }
+  | {
+      replaceOne: {
+        filter: WhereInput<T>;
+        replacement: CreateInput<T>;
+        upsert?: boolean;
+        hint?: Hint;
+        collation?: CollationOptions;
+      };
+    }
+  | { deleteOne: BulkDeleteModel<T> }
+  | { deleteMany: BulkDeleteModel<T> };
+
+interface BulkUpdateModel<T extends Schema> {
+  filter: WhereInput<T>;
+  update: UpdateInput<T> | UpdateOperators<T>;
+  upsert?: boolean;
+  arrayFilters?: Document[];
+  hint?: Hint;
+  collation?: CollationOptions;
+}
+
+interface BulkDeleteModel<T extends Schema> {
+  filter: WhereInput<T>;
+  hint?: Hint;
+  collation?: CollationOptions;
+}
+
+export interface BulkWriteOpts extends BulkWriteOptions {
+  timestamps?: boolean;
+  /** Overrides the validation mode for this call */
+  validate?: ValidationMode;
+  /** Set the soft delete field instead of removing documents (defaults to the schema config) */
+  soft?: boolean;
+}
+
+// Failure of a single operation of a batch, by its index in the input
+export interface OperationError {
+  index: number;
+  /** Validation error (ZodError) or the driver's WriteError */
+  error: Error | WriteError;
+}
+
+export interface UpsertManyOptions<T extends Schema> extends Omit<BulkWriteOptions, "ordered"> {
+  /** Unique business field that identifies a document (e.g. "sku") */
+  key: keyof T["fields"] & string;
+  /**
+   * Delete documents whose key is not in the input (soft deletes on soft delete schemas).
+   * Skipped when a document fails validation.
+   */
+  deleteMissing?: boolean;
+  /** Number of documents per bulkWrite (default: 1000) */
+  chunkSize?: number;
+  /** Overrides the validation mode for this call */
+  validate?: ValidationMode;
+}
+
+export interface UpsertManyResult {
+  insertedCount: number;
+  /** Existing documents with at least one changed field */
+  updatedCount: number;
+  /** Existing documents that already matched the input */
+  unchangedCount: number;
+  /** Documents removed by `deleteMissing` */
+  deletedCount: number;
+  /** Documents that failed validation or were rejected by the server, by input index */
+  errors: OperationError[];
+}
+
+export interface BulkWriteSummary {
+  insertedCount: number;
+  matchedCount: number;
+  modifiedCount: number;
+  deletedCount: number;
+  upsertedCount: number;
+  /** Ids of inserted documents, by operation index */
+  insertedIds: Record<number, ObjectId>;
+  /** Ids of upserted documents, by operation index */
+  upsertedIds: Record<number, ObjectId>;
+  /** Operations that failed validation or were rejected by the server */
+  errors: OperationError[];
+}
+
+// Schema fields holding GeoJSON geometries (declared with `s.point()`, `s.lineString()`, `s.polygon()`)
+export type GeoFieldKeys<T extends Schema> = {
+  [K in keyof InferSchemaType<T>]-?: NonNullable<InferSchemaType<T>[K]> extends
+    | GeoPoint
+    | GeoLineString
+    | GeoPolygon
+    ? K
+    : never;
+}[keyof InferSchemaType<T>] &
+  string;
+
+export interface NearOptions<T extends Schema> extends FindOptions<T> {
+  /** Additional filter applied together with the geospatial condition */
+  where?: WhereInput<T>;
+  /** Maximum distance from the point, in meters */
+  maxDistance?: number;
+  /** Minimum distance from the point, in meters */
+  minDistance?: number;
+}
+
+export interface WithinOptions<T extends Schema> extends FindOptions<T> {
+  /** Additional filter applied together with the geospatial condition */
+  where?: WhereInput<T>;
+}
+
+export interface GeoNearOptions<T extends Schema, TDistance extends string = "distance">
+  extends AggregateOptions, SoftDeleteQueryOptions {
+  /** Additional filter applied by `$geoNear` */
+  where?: WhereInput<T>;
+  /** Maximum distance from the point, in meters */
+  maxDistance?: number;
+  /** Minimum distance from the point, in meters */
+  minDistance?: number;
+  /** Output field holding the distance in meters (default: "distance") */
+  distanceField?: TDistance;
+  select?: SelectInput<T>;
+  limit?: number;
+}
+
+// Persists the resume token of a change stream (in a collection, Redis, a file...)
+export interface ResumeTokenStore {
+  /** Returns the token to resume after, or null/undefined to start from now */
+  load(): Promise<ResumeToken | null | undefined>;
+  /** Called with the token of each event once the loop body has processed it */
+  save(token: ResumeToken): Promise<void>;
+}
+
+export interface WatchOptions extends Omit<ChangeStreamOptions, "fullDocument"> {
+  /** Adds the current document to update events ("updateLookup") or the post-image when available */
+  fullDocument?: "default" | "updateLookup" | "whenAvailable" | "required";
+  /** Resumes after the saved token and saves the token of each processed event */
+  tokenStore?: ResumeTokenStore;
+}
+
+// New values of the fields changed by an update, keyed by schema path.
+// Positional paths of array elements ("items.0.qty") are reported as they are.
+export type UpdatedFields<T extends Schema> = {
+  [P in FieldPath<T>]?: PathValue<InferSchemaType<T>, P>;
+} & { [path: string]: unknown };
+
+export interface ChangeUpdateDescription<T extends Schema> extends Omit<
+  UpdateDescription<InferSchemaType<T>>,
+  "updatedFields"
+> {
+  updatedFields?: UpdatedFields<T>;
+}
+
+export interface ChangeUpdateEvent<T extends Schema> extends Omit<
+  ChangeStreamUpdateDocument<InferSchemaType<T>>,
+  "updateDescription"
+> {
+  updateDescription: ChangeUpdateDescription<T>;
+}
+
+// Change event of a collection, with fullDocument typed by the schema
+export type ChangeEvent<T extends Schema> =
+  | Exclude<ChangeStreamDocument<InferSchemaType<T>>, { operationType: "update" }>
+  | ChangeUpdateEvent<T>;
+
+// Change event of watchAll(), tagged with the name of the schema it belongs to
+export type SchemaChangeEvent<T extends Schema> = T extends Schema
+  ? ChangeEvent<T> & { schema: T["name"] }
+  : never;
+
 export type { ClientSession };
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -239,57 +899,189 @@ export type ZodSchemaMap<T extends Schema> = z.ZodType<InferSchemaType<T>>;
 
 export type SchemaToCollectionProxy<
   TSchema extends Schema<string, Record<string, FieldDefinition>>,
+  TSchemas extends readonly Schema<string, Record<string, FieldDefinition>>[] = readonly [],
 > = {
-  findOne(
-    where?: Filter<InferSchemaType<TSchema>>,
-    options?: FindOptions<TSchema>
-  ): Promise<InferSchemaType<TSchema> | null>;
-  findMany(
-    where?: Filter<InferSchemaType<TSchema>>,
-    options?: FindOptions<TSchema>
-  ): Promise<InferSchemaType<TSchema>[]>;
-  findById(
+  findOne<
+    const TInclude extends IncludeInput<TSchema> = Record<never, never>,
+    const TSelect extends SelectInput<TSchema> = SelectInput<TSchema>,
+  >(
+    where?: WhereInput<TSchema>,
+    options?: FindOptions<TSchema> & { include?: TInclude; select?: TSelect }
+  ): Promise<InferSelectType<InferIncludeType<TSchema, TSchemas, TInclude>, TSelect> | null>;
+  findMany<
+    const TInclude extends IncludeInput<TSchema> = Record<never, never>,
+    const TSelect extends SelectInput<TSchema> = SelectInput<TSchema>,
+  >(
+    where?: WhereInput<TSchema>,
+    options?: FindOptions<TSchema> & { include?: TInclude; select?: TSelect }
+  ): Promise<InferSelectType<InferIncludeType<TSchema, TSchemas, TInclude>, TSelect>[]>;
+  findById<
+    const TInclude extends IncludeInput<TSchema> = Record<never, never>,
+    const TSelect extends SelectInput<TSchema> = SelectInput<TSchema>,
+  >(
     id: ObjectId | string,
-    options?: FindOptions<TSchema>
-  ): Promise<InferSchemaType<TSchema> | null>;
+    options?: FindOptions<TSchema> & { include?: TInclude; select?: TSelect }
+  ): Promise<InferSelectType<InferIncludeType<TSchema, TSchemas, TInclude>, TSelect> | null>;
+  iterate<
+    const TInclude extends IncludeInput<TSchema> = Record<never, never>,
+    const TSelect extends SelectInput<TSchema> = SelectInput<TSchema>,
+  >(
+    where?: WhereInput<TSchema>,
+    options?: FindOptions<TSchema> & { include?: TInclude; select?: TSelect }
+  ): DocumentStream<InferSelectType<InferIncludeType<TSchema, TSchemas, TInclude>, TSelect>>;
+  paginate<
+    const TInclude extends IncludeInput<TSchema> = Record<never, never>,
+    const TSelect extends SelectInput<TSchema> = SelectInput<TSchema>,
+  >(
+    where?: WhereInput<TSchema>,
+    options?: PaginateOptions<TSchema> & { include?: TInclude; select?: TSelect }
+  ): Promise<
+    PaginateResult<InferSelectType<InferIncludeType<TSchema, TSchemas, TInclude>, TSelect>>
+  >;
+  page<
+    const TInclude extends IncludeInput<TSchema> = Record<never, never>,
+    const TSelect extends SelectInput<TSchema> = SelectInput<TSchema>,
+  >(
+    where?: WhereInput<TSchema>,
+    options?: PageOptions<TSchema> & { include?: TInclude; select?: TSelect }
+  ): Promise<PageResult<InferSelectType<InferIncludeType<TSchema, TSchemas, TInclude>, TSelect>>>;
   create(
     data: CreateInput<TSchema>,
     options?: CreateOptions
   ): Promise<{ insertedId: ObjectId } & InferSchemaType<TSchema>>;
-  createMany(
-    data: CreateInput<TSchema>[],
-    options?: CreateManyOptions
-  ): Promise<{ insertedIds: Record<number, ObjectId> }>;
+  createMany(data: CreateInput<TSchema>[], options?: CreateManyOptions): Promise<CreateManyResult>;
+  updateOne(
+    where: WhereInput<TSchema>,
+    data: MergeUpdateInput<TSchema>,
+    options: UpdateOptions & { merge: true }
+  ): Promise<{ matchedCount: number; modifiedCount: number; upsertedId?: ObjectId }>;
   updateOne(
-    where: Filter<InferSchemaType<TSchema>>,
-    data: UpdateInput<TSchema> | Document,
+    where: WhereInput<TSchema>,
+    data: UpdateInput<TSchema> | UpdateOperators<TSchema>,
     options?: UpdateOptions
   ): Promise<{ matchedCount: number; modifiedCount: number; upsertedId?: ObjectId }>;
   updateMany(
-    where: Filter<InferSchemaType<TSchema>>,
-    data: UpdateInput<TSchema> | Document,
+    where: WhereInput<TSchema>,
+    data: MergeUpdateInput<TSchema>,
+    options: UpdateOptions & { merge: true }
+  ): Promise<{ matchedCount: number; modifiedCount: number; upsertedId?: ObjectId }>;
+  updateMany(
+    where: WhereInput<TSchema>,
+    data: UpdateInput<TSchema> | UpdateOperators<TSchema>,
     options?: UpdateOptions
   ): Promise<{ matchedCount: number; modifiedCount: number; upsertedId?: ObjectId }>;
   updateById(
     id: ObjectId | string,
-    data: UpdateInput<TSchema> | Document,
+    data: MergeUpdateInput<TSchema>,
+    options: UpdateOptions & { merge: true }
+  ): Promise<{ matchedCount: number; modifiedCount: number }>;
+  updateById(
+    id: ObjectId | string,
+    data: UpdateInput<TSchema> | UpdateOperators<TSchema>,
     options?: UpdateOptions
   ): Promise<{ matchedCount: number; modifiedCount: number }>;
-  deleteOne(
-    where: Filter<InferSchemaType<TSchema>>,
-    options?: DeleteOptions
-  ): Promise<{ deletedCount: number }>;
+  replaceOne(
+    where: WhereInput<TSchema>,
+    data: CreateInput<TSchema>,
+    options?: ReplaceOptions
+  ): Promise<{ matchedCount: number; modifiedCount: number; upsertedId?: ObjectId }>;
+  replaceById(
+    id: ObjectId | string,
+    data: CreateInput<TSchema>,
+    options?: ReplaceOptions
+  ): Promise<{ matchedCount: number; modifiedCount: number; upsertedId?: ObjectId }>;
+  upsert(
+    where: WhereInput<TSchema>,
+    data: UpsertInput<TSchema>,
+    options?: UpsertOptions
+  ): Promise<InferSchemaType<TSchema>>;
+  findOneAndUpdate<const TSelect extends SelectInput<TSchema> = SelectInput<TSchema>>(
+    where: WhereInput<TSchema>,
+    data: MergeUpdateInput<TSchema>,
+    options: FindOneAndUpdateOptions<TSchema> & { merge: true; select?: TSelect }
+  ): Promise<InferSelectType<InferSchemaType<TSchema>, TSelect> | null>;
+  findOneAndUpdate<const TSelect extends SelectInput<TSchema> = SelectInput<TSchema>>(
+    where: WhereInput<TSchema>,
+    data: UpdateInput<TSchema> | UpdateOperators<TSchema>,
+    options?: FindOneAndUpdateOptions<TSchema> & { select?: TSelect }
+  ): Promise<InferSelectType<InferSchemaType<TSchema>, TSelect> | null>;
+  findByIdAndUpdate<const TSelect extends SelectInput<TSchema> = SelectInput<TSchema>>(
+    id: ObjectId | string,
+    data: MergeUpdateInput<TSchema>,
+    options: FindOneAndUpdateOptions<TSchema> & { merge: true; select?: TSelect }
+  ): Promise<InferSelectType<InferSchemaType<TSchema>, TSelect> | null>;
+  findByIdAndUpdate<const TSelect extends SelectInput<TSchema> = SelectInput<TSchema>>(
+    id: ObjectId | string,
+    data: UpdateInput<TSchema> | UpdateOperators<TSchema>,
+    options?: FindOneAndUpdateOptions<TSchema> & { select?: TSelect }
+  ): Promise<InferSelectType<InferSchemaType<TSchema>, TSelect> | null>;
+  findOneAndReplace<const TSelect extends SelectInput<TSchema> = SelectInput<TSchema>>(
+    where: WhereInput<TSchema>,
+    data: CreateInput<TSchema>,
+    options?: FindOneAndReplaceOptions<TSchema> & { select?: TSelect }
+  ): Promise<InferSelectType<InferSchemaType<TSchema>, TSelect> | null>;
+  findByIdAndReplace<const TSelect extends SelectInput<TSchema> = SelectInput<TSchema>>(
+    id: ObjectId | string,
+    data: CreateInput<TSchema>,
+    options?: FindOneAndReplaceOptions<TSchema> & { select?: TSelect }
+  ): Promise<InferSelectType<InferSchemaType<TSchema>, TSelect> | null>;
+  findOneAndDelete<const TSelect extends SelectInput<TSchema> = SelectInput<TSchema>>(
+    where: WhereInput<TSchema>,
+    options?: FindOneAndDeleteOptions<TSchema> & { select?: TSelect }
+  ): Promise<InferSelectType<InferSchemaType<TSchema>, TSelect> | null>;
+  findByIdAndDelete<const TSelect extends SelectInput<TSchema> = SelectInput<TSchema>>(
+    id: ObjectId | string,
+    options?: FindOneAndDeleteOptions<TSchema> & { select?: TSelect }
+  ): Promise<InferSelectType<InferSchemaType<TSchema>, TSelect> | null>;
+  deleteOne(where: WhereInput<TSchema>, options?: DeleteOptions): Promise<{ deletedCount: number }>;
   deleteMany(
-    where: Filter<InferSchemaType<TSchema>>,
+    where: WhereInput<TSchema>,
     options?: DeleteOptions
   ): Promise<{ deletedCount: number }>;
   deleteById(id: ObjectId | string, options?: DeleteOptions): Promise<{ deletedCount: number }>;
-  count(where?: Filter<InferSchemaType<TSchema>>, options?: CountOptions): Promise<number>;
-  exists(where: Filter<InferSchemaType<TSchema>>, options?: CountOptions): Promise<boolean>;
+  restore(
+    where: WhereInput<TSchema>,
+    options?: UpdateOptions
+  ): Promise<{ matchedCount: number; modifiedCount: number }>;
+  restoreById(
+    id: ObjectId | string,
+    options?: UpdateOptions
+  ): Promise<{ matchedCount: number; modifiedCount: number }>;
+  count(where?: WhereInput<TSchema>, options?: CountOptions): Promise<number>;
+  exists(where: WhereInput<TSchema>, options?: CountOptions): Promise<boolean>;
+  distinct<const P extends FieldPath<TSchema>>(
+    field: P,
+    where?: WhereInput<TSchema>,
+    options?: DistinctOptions
+  ): Promise<DistinctValue<TSchema, P>[]>;
+  near(
+    field: GeoFieldKeys<TSchema>,
+    point: GeoPoint,
+    options?: NearOptions<TSchema>
+  ): Promise<InferSchemaType<TSchema>[]>;
+  within(
+    field: GeoFieldKeys<TSchema>,
+    geometry: GeoPolygon,
+    options?: WithinOptions<TSchema>
+  ): Promise<InferSchemaType<TSchema>[]>;
+  geoNear<const TDistance extends string = "distance">(
+    field: GeoFieldKeys<TSchema>,
+    point: GeoPoint,
+    options?: GeoNearOptions<TSchema, TDistance>
+  ): Promise<(InferSchemaType<TSchema> & { [K in TDistance]: number })[]>;
+  upsertMany(
+    docs: CreateInput<TSchema>[],
+    options: UpsertManyOptions<TSchema>
+  ): Promise<UpsertManyResult>;
+  bulkWrite(
+    operations: BulkWriteOperation<TSchema>[],
+    options?: BulkWriteOpts
+  ): Promise<BulkWriteSummary>;
   aggregate<T = InferSchemaType<TSchema>>(
     pipeline: Document[],
     options?: AggregateOpts
   ): Promise<T[]>;
+  watch(pipeline?: Document[], options?: WatchOptions): ChangeEventStream<ChangeEvent<TSchema>>;
   getCollection(): import("mongodb").Collection;
 };
 
@@ -316,7 +1108,7 @@ export type SchemasToManager<
   TSchemas extends readonly Schema<string, Record<string, FieldDefinition>>[],
 > = {
   readonly [K in ValidManagerKeys<TSchemas>]: K extends SchemaNames<TSchemas>
-    ? SchemaToCollectionProxy<Extract<TSchemas[number], { name: K }>>
+    ? SchemaToCollectionProxy<Extract<TSchemas[number], { name: K }>, TSchemas>
     : K extends keyof ManagerMethods
       ? ManagerMethods[K]
       : never;
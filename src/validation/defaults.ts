@@ -0,0 +1,74 @@
+import { ObjectId, UUID, type Document } from "mongodb";
+import type { Schema, FieldDefinition } from "../types";
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * Resolves the default value of a field.
+ * Calls factory functions and generates "auto" values for date (now), objectId and uuid fields.
+ * For other field types "auto" is used as a literal value.
+ *
+ * @param field - The field definition from schema
+ * @returns The resolved default value, or undefined if the field has none
+ */
+export function resolveDefault(field: FieldDefinition): unknown {
+  const value = field.default;
+
+  if (value === "auto") {
+    if (field.type === "date") return new Date();
+    if (field.type === "objectId") return new ObjectId();
+    if (field.type === "uuid") return new UUID();
+    return value;
+  }
+
+  return typeof value === "function" ? (value as () => unknown)() : value;
+}
+
+function applyFieldDefaults(
+  fields: Record<string, FieldDefinition>,
+  data: Record<string, unknown>
+): Record<string, unknown> {
+  const result = { ...data };
+
+  for (const [fieldName, fieldDef] of Object.entries(fields)) {
+    const value = result[fieldName];
+
+    if (value === undefined) {
+      if (fieldDef.default !== undefined) {
+        result[fieldName] = resolveDefault(fieldDef);
+      }
+    } else if (fieldDef.type === "object" && fieldDef.properties && isPlainObject(value)) {
+      result[fieldName] = applyFieldDefaults(fieldDef.properties, value);
+    } else if (fieldDef.type === "union" && fieldDef.variants && isPlainObject(value)) {
+      const variant = fieldDef.variants[String(value[fieldDef.discriminator ?? "type"])];
+      if (variant) {
+        result[fieldName] = applyFieldDefaults(variant, value);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fills in default values for fields missing from a document.
+ * Nested object and union fields are filled when the parent object is present.
+ * Used internally by `create()`, `createMany()` and upserts.
+ *
+ * @param schema - Mondel schema definition
+ * @param data - Document data
+ * @returns A copy of the document with defaults applied
+ *
+ * @example
+ * ```typescript
+ * const doc = applyDefaults(userSchema, { email: "john@example.com" });
+ * // { email: "john@example.com", role: "USER", ... }
+ * ```
+ */
+export function applyDefaults<T extends Document>(schema: Schema, data: T): T {
+  return applyFieldDefaults(schema.fields, data) as T;
+}
@@ -1 +1,8 @@
-export { zodSchema, zodCreateSchema, zodUpdateSchema, validate } from "./zod-schema";
+export {
+  zodSchema,
+  zodCreateSchema,
+  zodUpdateSchema,
+  zodUpdateOperatorsSchema,
+  validate,
+} from "./zod-schema";
+export { applyDefaults, resolveDefault } from "./defaults";
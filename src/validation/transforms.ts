@@ -0,0 +1,103 @@
+import type { Document } from "mongodb";
+import type { Schema, FieldDefinition } from "../types";
+import { isPlainObject } from "./defaults";
+import { resolveFieldPath } from "./zod-schema";
+
+/** Update operators whose values are stored as field values */
+const VALUE_OPERATORS = new Set(["$set", "$setOnInsert", "$min", "$max"]);
+
+/** Update operators whose values are stored as array items */
+const ITEM_OPERATORS = new Set(["$push", "$addToSet"]);
+
+/**
+ * Applies the transforms of a field and of its nested fields to a value.
+ * Nested fields are transformed first, like Zod parses them; null and missing values are kept.
+ */
+function transformValue(field: FieldDefinition, value: unknown): unknown {
+  if (value === null || value === undefined) return value;
+
+  let result: unknown = value;
+  if (field.type === "array" && field.items && Array.isArray(value)) {
+    const items = field.items;
+    result = value.map((item) => transformValue(items, item));
+  } else if (field.type === "object" && field.properties && isPlainObject(value)) {
+    result = transformFields(field.properties, value);
+  } else if (field.type === "union" && field.variants && isPlainObject(value)) {
+    const variant = field.variants[String(value[field.discriminator ?? "type"])];
+    if (variant) result = transformFields(variant, value);
+  }
+
+  for (const effect of field.effects ?? []) {
+    if (effect.kind === "transform") result = effect.apply(result);
+  }
+  return result;
+}
+
+function transformFields(
+  fields: Record<string, FieldDefinition>,
+  data: Record<string, unknown>
+): Record<string, unknown> {
+  const result = { ...data };
+  for (const [fieldName, fieldDef] of Object.entries(fields)) {
+    if (fieldName in result) {
+      result[fieldName] = transformValue(fieldDef, result[fieldName]);
+    }
+  }
+  return result;
+}
+
+/** Transforms the items added by `$push` or `$addToSet`, with or without `$each`. */
+function transformItems(field: FieldDefinition, value: unknown): unknown {
+  const items = field.type === "array" ? field.items : undefined;
+  if (!items) return value;
+  if (isPlainObject(value) && Array.isArray(value.$each)) {
+    return { ...value, $each: value.$each.map((item) => transformValue(items, item)) };
+  }
+  return transformValue(items, value);
+}
+
+/**
+ * Applies field transforms to a document without validating it.
+ * Used internally when validation is off or fails in `"loose"` mode,
+ * so the stored data does not depend on the validation mode.
+ *
+ * @param schema - Mondel schema definition
+ * @param data - Document data or plain update fields
+ * @returns A copy of the data with transforms applied
+ */
+export function applyTransforms<T extends Document>(schema: Schema, data: T): T {
+  return transformFields(schema.fields, data) as T;
+}
+
+/**
+ * Applies field transforms to the values of an update document with operators.
+ * Values of `$set`, `$setOnInsert`, `$min` and `$max` go through the transforms of the field
+ * at their path, and items of `$push` and `$addToSet` through those of the array items.
+ *
+ * @param schema - Mondel schema definition
+ * @param update - Update document with operators
+ * @returns A copy of the update with transforms applied
+ */
+export function applyUpdateTransforms<T extends Document>(schema: Schema, update: T): T {
+  const result: Document = { ...update };
+
+  for (const [operator, values] of Object.entries(update)) {
+    if (!isPlainObject(values)) continue;
+    if (!VALUE_OPERATORS.has(operator) && !ITEM_OPERATORS.has(operator)) continue;
+
+    const transformed: Record<string, unknown> = {};
+    for (const [path, value] of Object.entries(values)) {
+      const field = resolveFieldPath(schema, path);
+      if (!field) {
+        transformed[path] = value;
+      } else if (VALUE_OPERATORS.has(operator)) {
+        transformed[path] = transformValue(field, value);
+      } else {
+        transformed[path] = transformItems(field, value);
+      }
+    }
+    result[operator] = transformed;
+  }
+
+  return result as T;
+}
@@ -1,5 +1,8 @@
+import { ObjectId } from "mongodb";
 import { z, type ZodTypeAny } from "zod";
 import type { Schema, FieldDefinition } from "../types";
+import { isFieldNullable } from "../schema/define-schema";
+import { isPlainObject, resolveDefault } from "./defaults";
 
 /**
  * Validates if a value is a valid MongoDB ObjectId.
@@ -18,6 +21,38 @@ function isObjectId(value: unknown): boolean {
   return false;
 }
 
+/**
+ * Builds a Zod ObjectId schema. Reference fields only accept ObjectIds and
+ * 24-character hex strings, which are converted so `include` can resolve them.
+ */
+function buildObjectIdSchema(field: FieldDefinition): ZodTypeAny {
+  if (!field.ref) {
+    return z.union([z.string(), z.custom((val: unknown) => isObjectId(val))]);
+  }
+  return z
+    .custom((val: unknown) => isObjectId(val), "Expected an ObjectId")
+    .transform((val) => (typeof val === "string" ? new ObjectId(val) : val));
+}
+
+/**
+ * Checks the BSON type tag of a value (e.g. "Decimal128", "Long", "Binary").
+ * Works across BSON library instances, unlike `instanceof`.
+ */
+function isBsonType(value: unknown, bsonType: string): boolean {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { _bsontype?: unknown })._bsontype === bsonType
+  );
+}
+
+/**
+ * Validates if a value is a BSON UUID (Binary subtype 4).
+ */
+function isUuid(value: unknown): boolean {
+  return isBsonType(value, "Binary") && (value as { sub_type?: unknown }).sub_type === 4;
+}
+
 /**
  * Builds a Zod string schema with optional constraints.
  */
@@ -46,6 +81,38 @@ function buildNumberSchema(field: FieldDefinition): ZodTypeAny {
   return schema;
 }
 
+/**
+ * Builds a Zod 32-bit integer schema with optional min/max constraints.
+ */
+function buildIntSchema(field: FieldDefinition): ZodTypeAny {
+  let schema = z.number().int().min(-2147483648).max(2147483647);
+  if (field.min !== undefined) schema = schema.min(field.min);
+  if (field.max !== undefined) schema = schema.max(field.max);
+  return schema;
+}
+
+/** GeoJSON position: [longitude, latitude] within valid ranges */
+const geoPositionSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]);
+
+/**
+ * Builds a Zod GeoJSON Polygon schema.
+ * Each linear ring needs at least 4 positions and must be closed.
+ */
+function buildPolygonSchema(): ZodTypeAny {
+  const ring = z
+    .array(geoPositionSchema)
+    .min(4)
+    .refine((positions) => {
+      const first = positions[0];
+      const last = positions[positions.length - 1];
+      return (
+        first !== undefined && last !== undefined && first[0] === last[0] && first[1] === last[1]
+      );
+    }, "Polygon rings must be closed (first and last positions equal)");
+
+  return z.object({ type: z.literal("Polygon"), coordinates: z.array(ring).min(1) }).passthrough();
+}
+
 /**
  * Builds a Zod array schema with typed items.
  */
@@ -65,25 +132,58 @@ function buildObjectSchema(field: FieldDefinition): ZodTypeAny {
   for (const [key, prop] of Object.entries(field.properties)) {
     shape[key] = fieldToZod(prop);
   }
-  return z.object(shape);
+  return z.object(shape).passthrough();
+}
+
+/**
+ * Builds a Zod discriminated union with one object schema per variant.
+ */
+function buildUnionSchema(field: FieldDefinition): ZodTypeAny {
+  const discriminator = field.discriminator ?? "type";
+  const options = Object.entries(field.variants ?? {}).map(([tag, fields]) => {
+    const shape: Record<string, ZodTypeAny> = {};
+    for (const [key, prop] of Object.entries(fields)) {
+      shape[key] = fieldToZod(prop);
+    }
+    shape[discriminator] = z.literal(tag);
+    return z.object(shape).passthrough();
+  });
+
+  const [first, ...rest] = options;
+  if (!first) {
+    return z.never();
+  }
+  return z.discriminatedUnion(discriminator, [first, ...rest]);
 }
 
 /** Maps field types to their Zod schema builders */
 const typeBuilders: Record<string, (field: FieldDefinition) => ZodTypeAny> = {
   string: buildStringSchema,
   number: buildNumberSchema,
+  int: buildIntSchema,
+  long: () => z.custom((val: unknown) => isBsonType(val, "Long")),
+  decimal: () => z.custom((val: unknown) => isBsonType(val, "Decimal128")),
   boolean: () => z.boolean(),
   date: () => z.date(),
-  objectId: () => z.union([z.string(), z.custom((val: unknown) => isObjectId(val))]),
+  objectId: buildObjectIdSchema,
+  binary: () => z.custom((val: unknown) => isBsonType(val, "Binary")),
+  uuid: () => z.custom((val: unknown) => isUuid(val)),
+  point: () => z.object({ type: z.literal("Point"), coordinates: geoPositionSchema }).passthrough(),
+  lineString: () =>
+    z
+      .object({ type: z.literal("LineString"), coordinates: z.array(geoPositionSchema).min(2) })
+      .passthrough(),
+  polygon: buildPolygonSchema,
   array: buildArraySchema,
   object: buildObjectSchema,
   json: () => z.unknown(),
   literal: (field) => z.literal(field.literal as string | number | boolean),
+  union: buildUnionSchema,
 };
 
 /**
  * Converts a FieldDefinition to a Zod schema.
- * Handles all field types, required/optional, and default values.
+ * Handles all field types, required/optional, nullable, and default values.
  *
  * @param field - The field definition from schema
  * @returns Zod schema for validation
@@ -92,22 +192,54 @@ function fieldToZod(field: FieldDefinition): ZodTypeAny {
   const builder = typeBuilders[field.type];
   let schema = builder ? builder(field) : z.unknown();
 
-  // Apply optional/nullable for non-required fields
+  // Apply custom refinements/transforms in declaration order
+  for (const effect of field.effects ?? []) {
+    schema =
+      effect.kind === "refine"
+        ? schema.refine((value) => effect.check(value), effect.message)
+        : schema.transform((value) => effect.apply(value));
+  }
+
+  // Non-required fields may be missing; nullability is configured separately
   if (!field.required) {
-    schema = schema.optional().nullable();
+    schema = schema.optional();
+  }
+  if (isFieldNullable(field)) {
+    schema = schema.nullable();
   }
 
-  // Apply default value (skip "auto" which is handled at runtime)
-  if (field.default !== undefined && field.default !== "auto") {
-    schema = schema.default(field.default);
+  // Apply default value (factories and "auto" are resolved on each parse)
+  if (field.default !== undefined) {
+    schema = schema.default(() => resolveDefault(field));
   }
 
   return schema;
 }
 
+/**
+ * Adds the schema-level refinements (cross-field rules) to an object schema.
+ * Zod 3 wraps refined objects in `ZodEffects`, which has no `.shape`, so shapes
+ * must be built from the unrefined object.
+ */
+function applySchemaRefinements(
+  object: z.ZodObject<Record<string, ZodTypeAny>>,
+  schema: Schema
+): z.ZodObject<Record<string, ZodTypeAny>> {
+  let refined = object;
+  for (const refinement of schema.refine ?? []) {
+    refined = refined.refine((doc) => refinement.check(doc), {
+      message: refinement.message,
+      path: refinement.path,
+    });
+  }
+  return refined;
+}
+
 /**
  * Creates a complete Zod schema from a Mondel schema definition.
- * Includes all fields and timestamp fields if configured.
+ * Includes all fields plus timestamp and soft delete fields if configured.
+ * Schema-level refinements are applied to the whole document.
+ * Keys outside the schema are kept, at the top level and in nested objects.
  *
  * @param schema - Mondel schema definition
  * @returns Zod object schema for full document validation
@@ -121,6 +253,13 @@ function fieldToZod(field: FieldDefinition): ZodTypeAny {
 export function zodSchema<TSchema extends Schema>(
   schema: TSchema
 ): z.ZodObject<Record<string, ZodTypeAny>> {
+  return applySchemaRefinements(z.object(documentShape(schema)).passthrough(), schema);
+}
+
+/**
+ * Builds the Zod shape of a whole document: fields, timestamps and soft delete field.
+ */
+function documentShape(schema: Schema): Record<string, ZodTypeAny> {
   const shape: Record<string, ZodTypeAny> = {};
 
   for (const [fieldName, fieldDef] of Object.entries(schema.fields)) {
@@ -137,12 +276,37 @@ export function zodSchema<TSchema extends Schema>(
     }
   }
 
-  return z.object(shape);
+  if (schema.softDelete && schema.softDelete.deletedAt) {
+    shape[schema.softDelete.deletedAt] = z.date().optional().nullable();
+  }
+
+  return shape;
+}
+
+/**
+ * Builds the Zod shape of insert data, without the auto-generated fields.
+ */
+function createShape(schema: Schema): Record<string, ZodTypeAny> {
+  const shape = documentShape(schema);
+
+  // Remove auto-generated fields
+  delete shape["_id"];
+  if (schema.timestamps) {
+    const ts = schema.timestamps;
+    if (ts.createdAt) delete shape[ts.createdAt];
+    if (ts.updatedAt) delete shape[ts.updatedAt];
+  }
+  if (schema.softDelete && schema.softDelete.deletedAt) {
+    delete shape[schema.softDelete.deletedAt];
+  }
+
+  return shape;
 }
 
 /**
  * Creates a Zod schema for insert operations.
- * Excludes _id and timestamp fields (auto-generated).
+ * Excludes _id, timestamp and soft delete fields (auto-generated).
+ * Schema-level refinements are applied to the whole document.
  * Used internally by `create()` and `createMany()` methods.
  *
  * @param schema - Mondel schema definition
@@ -151,23 +315,42 @@ export function zodSchema<TSchema extends Schema>(
 export function zodCreateSchema<TSchema extends Schema>(
   schema: TSchema
 ): z.ZodObject<Record<string, ZodTypeAny>> {
-  const fullSchema = zodSchema(schema);
-  const shape = { ...fullSchema.shape };
+  return applySchemaRefinements(z.object(createShape(schema)).passthrough(), schema);
+}
 
-  // Remove auto-generated fields
-  delete shape["_id"];
-  if (schema.timestamps) {
-    const ts = schema.timestamps;
-    if (ts.createdAt) delete shape[ts.createdAt];
-    if (ts.updatedAt) delete shape[ts.updatedAt];
+/**
+ * Removes the default values of a field and of its nested fields.
+ */
+function withoutDefault(field: FieldDefinition): FieldDefinition {
+  const { default: _default, ...rest } = field;
+  void _default;
+  const result: FieldDefinition = { ...rest };
+  if (field.items) {
+    result.items = withoutDefault(field.items);
+  }
+  if (field.properties) {
+    result.properties = withoutDefaults(field.properties);
   }
+  if (field.variants) {
+    result.variants = Object.fromEntries(
+      Object.entries(field.variants).map(([tag, fields]) => [tag, withoutDefaults(fields)])
+    );
+  }
+  return result;
+}
 
-  return z.object(shape);
+function withoutDefaults(fields: Record<string, FieldDefinition>): Record<string, FieldDefinition> {
+  return Object.fromEntries(
+    Object.entries(fields).map(([name, field]) => [name, withoutDefault(field)])
+  );
 }
 
 /**
  * Creates a Zod schema for update operations.
  * All fields become optional (partial update support).
+ * Field refinements and transforms apply; schema-level refinements are skipped
+ * because a partial update does not contain the whole document.
+ * Defaults are not applied, so an update only writes the fields it contains.
  * Used internally by `updateOne()`, `updateMany()`, `updateById()` methods.
  *
  * @param schema - Mondel schema definition
@@ -176,8 +359,145 @@ export function zodCreateSchema<TSchema extends Schema>(
 export function zodUpdateSchema<TSchema extends Schema>(
   schema: TSchema
 ): z.ZodObject<Record<string, ZodTypeAny>> {
-  const createSchema = zodCreateSchema(schema);
-  return createSchema.partial();
+  return z
+    .object(createShape({ ...schema, fields: withoutDefaults(schema.fields) }))
+    .partial()
+    .passthrough();
+}
+
+/** Field types that support `$inc` and `$mul` */
+const NUMERIC_FIELD_TYPES = new Set(["number", "int", "long", "decimal"]);
+
+/** Array index or positional operator segment ($, $[], $[identifier]) */
+const ARRAY_SEGMENT = /^(\d+|\$|\$\[\w*\])$/;
+
+/**
+ * Finds the field definition at a dot-notation path.
+ * Array indexes and positional operators are skipped.
+ */
+export function resolveFieldPath(schema: Schema, path: string): FieldDefinition | undefined {
+  const [first, ...rest] = path.split(".");
+  let field = first === undefined ? undefined : schema.fields[first];
+
+  for (const segment of rest) {
+    if (field?.type === "array") {
+      field = field.items;
+      if (ARRAY_SEGMENT.test(segment)) continue;
+    }
+    if (!field) return undefined;
+
+    if (field.type === "object") {
+      field = field.properties?.[segment];
+    } else if (field.type === "union") {
+      const variants = Object.values(field.variants ?? {});
+      field = variants.find((variant) => segment in variant)?.[segment];
+    } else {
+      return undefined;
+    }
+  }
+
+  return field;
+}
+
+/**
+ * Builds a schema that always fails with the given message.
+ */
+function rejectWith(message: string): ZodTypeAny {
+  return z.custom(() => false, message);
+}
+
+/**
+ * Builds the Zod schema for one value of an update operator.
+ * Unknown paths and operators without a value type are not checked.
+ */
+function operatorValueSchema(
+  operator: string,
+  field: FieldDefinition | undefined,
+  value: unknown
+): ZodTypeAny {
+  if (!field) return z.unknown();
+
+  switch (operator) {
+    case "$set":
+    case "$setOnInsert":
+    case "$min":
+    case "$max":
+      return fieldToZod(field);
+    case "$inc":
+    case "$mul":
+      return NUMERIC_FIELD_TYPES.has(field.type)
+        ? z.custom(
+            (val: unknown) =>
+              typeof val === "number" || isBsonType(val, "Long") || isBsonType(val, "Decimal128"),
+            "Expected a numeric value"
+          )
+        : rejectWith(`${operator} requires a numeric field`);
+    case "$push":
+    case "$addToSet": {
+      if (field.type !== "array") {
+        return rejectWith(`${operator} requires an array field`);
+      }
+      const item = field.items ? fieldToZod(field.items) : z.unknown();
+      const hasEach = typeof value === "object" && value !== null && "$each" in value;
+      if (!hasEach) return item;
+      return operator === "$push"
+        ? z.object({
+            $each: z.array(item),
+            $position: z.number().int().optional(),
+            $slice: z.number().int().optional(),
+            $sort: z.unknown().optional(),
+          })
+        : z.object({ $each: z.array(item) });
+    }
+    case "$pull": {
+      if (field.type !== "array") {
+        return rejectWith(`${operator} requires an array field`);
+      }
+      // Conditions ({ $in: [...] } or a match on the fields of documents) are not checked
+      return isPlainObject(value) || !field.items ? z.unknown() : fieldToZod(field.items);
+    }
+    case "$pullAll":
+      if (field.type !== "array") {
+        return rejectWith(`${operator} requires an array field`);
+      }
+      return z.array(field.items ? fieldToZod(field.items) : z.unknown());
+    case "$unset":
+      return field.required ? rejectWith("Cannot unset a required field") : z.unknown();
+    default:
+      return z.unknown();
+  }
+}
+
+/**
+ * Creates a Zod schema for an update document that uses operators.
+ * Values of `$set`, `$setOnInsert`, `$min`, `$max`, `$inc`, `$mul`, `$push`,
+ * `$addToSet`, `$pull`, `$pullAll` and `$unset` are checked against the field at each path.
+ * Used internally by `updateOne()`, `updateMany()`, `updateById()` methods.
+ *
+ * @param schema - Mondel schema definition
+ * @param update - Update document with operators
+ * @returns Zod schema matching the shape of `update`
+ */
+export function zodUpdateOperatorsSchema<TSchema extends Schema>(
+  schema: TSchema,
+  update: Record<string, unknown>
+): z.ZodObject<Record<string, ZodTypeAny>> {
+  const shape: Record<string, ZodTypeAny> = {};
+
+  for (const [operator, values] of Object.entries(update)) {
+    if (typeof values !== "object" || values === null || Array.isArray(values)) {
+      shape[operator] = z.unknown();
+      continue;
+    }
+
+    const operatorShape: Record<string, ZodTypeAny> = {};
+    for (const [path, value] of Object.entries(values)) {
+      operatorShape[path] = operatorValueSchema(operator, resolveFieldPath(schema, path), value);
+    }
+    shape[operator] = z.object(operatorShape);
+  }
+
+  return z.object(shape);
 }
 
 /**
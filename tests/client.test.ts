@@ -0,0 +1,85 @@
+import { ObjectId } from "mongodb";
+import { ZodError } from "zod";
+import { describe, expect, it, vi, afterEach } from "vitest";
+import { createClient } from "../src/client";
+import { schema, s } from "../src/schema";
+
+const collection = {
+  insertOne: vi.fn(async () => ({ insertedId: new ObjectId() })),
+};
+
+vi.mock("mongodb", async (importOriginal) => {
+  const mongodb = await importOriginal<typeof import("mongodb")>();
+  class MongoClient {
+    async connect() {
+      return this;
+    }
+    db() {
+      return { collection: () => collection };
+    }
+    async close() {}
+  }
+  return { ...mongodb, MongoClient };
+});
+
+function makeSchemas() {
+  const fields = { email: s.string().required() };
+  return [
+    schema("strictUsers", { fields, validation: { mode: "strict" } }),
+    schema("looseUsers", { fields, validation: { mode: "loose" } }),
+    schema("unvalidatedUsers", { fields, validation: { enabled: false } }),
+    schema("defaultUsers", { fields, validation: {} }),
+  ] as const;
+}
+
+describe("createClient validation modes", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    collection.insertOne.mockClear();
+  });
+
+  it("uses the schema's own validation mode over the client mode", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const db = await createClient({
+      uri: "mongodb://test",
+      schemas: makeSchemas(),
+      validation: "off",
+    });
+
+    await expect(db.strictUsers.create({} as never)).rejects.toBeInstanceOf(ZodError);
+    await db.looseUsers.create({} as never);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(collection.insertOne).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips validation for schemas with validation disabled", async () => {
+    const db = await createClient({
+      uri: "mongodb://test",
+      schemas: makeSchemas(),
+      validation: "strict",
+    });
+
+    await db.unvalidatedUsers.create({} as never);
+
+    expect(collection.insertOne).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back to the client mode when the schema sets no mode", async () => {
+    const strict = await createClient({
+      uri: "mongodb://test",
+      schemas: makeSchemas(),
+      validation: "strict",
+    });
+    const off = await createClient({
+      uri: "mongodb://test",
+      schemas: makeSchemas(),
+      validation: "off",
+    });
+
+    await expect(strict.defaultUsers.create({} as never)).rejects.toBeInstanceOf(ZodError);
+    await off.defaultUsers.create({} as never);
+
+    expect(collection.insertOne).toHaveBeenCalledTimes(1);
+  });
+});
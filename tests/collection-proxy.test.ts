@@ -1,7 +1,16 @@
-import { ObjectId, type ClientSession, type Db, type Document } from "mongodb";
+import {
+  MongoBulkWriteError,
+  ObjectId,
+  type BulkWriteResult,
+  type ClientSession,
+  type Db,
+  type Document,
+  type WriteError,
+} from "mongodb";
 import { ZodError } from "zod";
 import { describe, expect, it, vi, afterEach } from "vitest";
 import { CollectionProxy } from "../src/manager/collection-proxy";
+import { schemaChangePipeline } from "../src/manager/change-stream";
 import type { Schema } from "../src/types";
 
 function makeSchema(): Schema {
@@ -21,13 +30,58 @@ function makeSchema(): Schema {
   };
 }
 
-function makeProxy(validationMode: "strict" | "loose" | "off" = "strict") {
+function makeSoftDeleteSchema(): Schema {
+  return { ...makeSchema(), softDelete: { deletedAt: "deletedAt" } };
+}
+
+function makeDefaultsSchema(): Schema {
+  return {
+    ...makeSchema(),
+    fields: {
+      email: { type: "string", required: true, unique: false },
+      role: { type: "string", required: false, unique: false, default: "USER" },
+      tags: { type: "array", required: false, unique: false, default: () => [] },
+      joinedAt: { type: "date", required: false, unique: false, default: "auto" },
+    },
+  };
+}
+
+function bulkResult(overrides: Partial<BulkWriteResult> = {}): BulkWriteResult {
+  return {
+    insertedCount: 0,
+    matchedCount: 0,
+    modifiedCount: 0,
+    deletedCount: 0,
+    upsertedCount: 0,
+    insertedIds: {},
+    upsertedIds: {},
+    ...overrides,
+  } as BulkWriteResult;
+}
+
+function changeStream(events: Document[]) {
+  return {
+    close: vi.fn().mockResolvedValue(undefined),
+    async *[Symbol.asyncIterator]() {
+      yield* events;
+    },
+  };
+}
+
+function makeProxy(
+  validationMode: "strict" | "loose" | "off" = "strict",
+  schema: Schema = makeSchema()
+) {
   const cursor = {
     project: vi.fn(),
     sort: vi.fn(),
     skip: vi.fn(),
     limit: vi.fn(),
     toArray: vi.fn().mockResolvedValue([]),
+    close: vi.fn().mockResolvedValue(undefined),
+    async *[Symbol.asyncIterator]() {
+      yield* await this.toArray();
+    },
   };
   cursor.project.mockReturnValue(cursor);
   cursor.sort.mockReturnValue(cursor);
@@ -43,15 +97,22 @@ function makeProxy(validationMode: "strict" | "loose" | "off" = "strict") {
     updateMany: vi.fn().mockResolvedValue({ matchedCount: 0, modifiedCount: 0 }),
     deleteOne: vi.fn().mockResolvedValue({ deletedCount: 0 }),
     deleteMany: vi.fn().mockResolvedValue({ deletedCount: 0 }),
+    replaceOne: vi.fn().mockResolvedValue({ matchedCount: 0, modifiedCount: 0 }),
+    findOneAndUpdate: vi.fn().mockResolvedValue(null),
+    findOneAndReplace: vi.fn().mockResolvedValue(null),
+    findOneAndDelete: vi.fn().mockResolvedValue(null),
+    bulkWrite: vi.fn().mockResolvedValue(bulkResult()),
     countDocuments: vi.fn().mockResolvedValue(0),
+    distinct: vi.fn().mockResolvedValue([]),
     aggregate: vi.fn().mockReturnValue({ toArray: vi.fn().mockResolvedValue([]) }),
+    watch: vi.fn().mockImplementation(() => changeStream([])),
   };
 
   const db = {
     collection: vi.fn().mockReturnValue(collection),
   } as unknown as Db;
 
-  const proxy = new CollectionProxy(db, makeSchema(), validationMode);
+  const proxy = new CollectionProxy(db, schema, validationMode);
   return { proxy, collection, cursor };
 }
 
@@ -112,4 +173,1226 @@ describe("CollectionProxy", () => {
     expect(warnSpy).toHaveBeenCalledOnce();
     expect(collection.insertOne).toHaveBeenCalledOnce();
   });
+
+  it("skips validation when a call overrides the mode with validate: off", async () => {
+    const { proxy, collection } = makeProxy("strict");
+
+    await proxy.create({ email: 123 } as unknown as Document, { validate: "off" });
+
+    expect(collection.insertOne).toHaveBeenCalledWith({ email: 123 }, {});
+  });
+
+  it("enforces a per-call strict override in loose mode", async () => {
+    const { proxy, collection } = makeProxy("loose");
+
+    await expect(
+      proxy.updateOne({}, { email: 123 } as unknown as Document, { validate: "strict" })
+    ).rejects.toBeInstanceOf(ZodError);
+    expect(collection.updateOne).not.toHaveBeenCalled();
+  });
+
+  it("hard deletes when soft delete is not enabled", async () => {
+    const { proxy, collection } = makeProxy();
+
+    await proxy.deleteOne({ email: "user@example.com" });
+
+    expect(collection.deleteOne).toHaveBeenCalledWith({ email: "user@example.com" }, {});
+    expect(collection.updateOne).not.toHaveBeenCalled();
+  });
+
+  it("sets deletedAt instead of deleting on soft delete schemas", async () => {
+    const { proxy, collection } = makeProxy("strict", makeSoftDeleteSchema());
+    collection.updateMany.mockResolvedValue({
+      acknowledged: true,
+      matchedCount: 2,
+      modifiedCount: 2,
+    });
+
+    const result = await proxy.deleteMany({ email: "user@example.com" });
+
+    expect(collection.deleteMany).not.toHaveBeenCalled();
+    expect(collection.updateMany).toHaveBeenCalledWith(
+      { email: "user@example.com", deletedAt: null },
+      { $set: { deletedAt: expect.any(Date) } },
+      {}
+    );
+    expect(result).toEqual({ acknowledged: true, deletedCount: 2 });
+  });
+
+  it("allows forcing a hard delete with soft: false", async () => {
+    const { proxy, collection } = makeProxy("strict", makeSoftDeleteSchema());
+    const id = new ObjectId();
+
+    await proxy.deleteById(id, { soft: false });
+
+    expect(collection.deleteOne).toHaveBeenCalledWith({ _id: id }, {});
+  });
+
+  it("excludes soft-deleted documents from queries by default", async () => {
+    const { proxy, collection } = makeProxy("strict", makeSoftDeleteSchema());
+
+    await proxy.findMany({ email: "user@example.com" });
+    await proxy.count({}, { onlyDeleted: true });
+    await proxy.findOne({}, { withDeleted: true });
+
+    expect(collection.find).toHaveBeenCalledWith(
+      { email: "user@example.com", deletedAt: null },
+      expect.any(Object)
+    );
+    expect(collection.countDocuments).toHaveBeenCalledWith({ deletedAt: { $ne: null } }, {});
+    expect(collection.findOne).toHaveBeenCalledWith({}, expect.any(Object));
+  });
+
+  it("scopes distinct to non-deleted documents and forwards its options", async () => {
+    const { proxy, collection } = makeProxy("strict", makeSoftDeleteSchema());
+    const session = {} as ClientSession;
+    collection.distinct.mockResolvedValueOnce(["a@example.com"]);
+
+    const values = await proxy.distinct(
+      "email",
+      { role: "ADMIN" },
+      { session, collation: { locale: "en", strength: 2 } }
+    );
+    await proxy.distinct("email", {}, { withDeleted: true });
+
+    expect(values).toEqual(["a@example.com"]);
+    expect(collection.distinct).toHaveBeenNthCalledWith(
+      1,
+      "email",
+      { role: "ADMIN", deletedAt: null },
+      { session, collation: { locale: "en", strength: 2 } }
+    );
+    expect(collection.distinct).toHaveBeenNthCalledWith(2, "email", {}, {});
+  });
+
+  it("restores soft-deleted documents by unsetting deletedAt", async () => {
+    const { proxy, collection } = makeProxy("strict", makeSoftDeleteSchema());
+    const id = new ObjectId();
+
+    await proxy.restoreById(id);
+
+    expect(collection.updateMany).toHaveBeenCalledWith(
+      { _id: id, deletedAt: { $ne: null } },
+      { $unset: { deletedAt: "" } },
+      {}
+    );
+  });
+
+  it("persists transformed values on create and update", async () => {
+    const schema: Schema = {
+      ...makeSchema(),
+      fields: {
+        email: {
+          type: "string",
+          required: true,
+          unique: false,
+          effects: [{ kind: "transform", apply: (value) => String(value).toLowerCase() }],
+        },
+      },
+    };
+    const { proxy, collection } = makeProxy("strict", schema);
+
+    await proxy.create({ email: "John@Example.com", source: "import" });
+    await proxy.updateOne({}, { email: "JANE@EXAMPLE.COM" });
+
+    expect(collection.insertOne.mock.calls[0]?.[0]).toEqual({
+      email: "john@example.com",
+      source: "import",
+    });
+    expect(collection.updateOne.mock.calls[0]?.[1]).toEqual({
+      $set: { email: "jane@example.com" },
+    });
+  });
+
+  it("applies transforms whatever the validation mode", async () => {
+    const lowercase = (value: unknown) => String(value).toLowerCase();
+    const schema: Schema = {
+      ...makeSchema(),
+      fields: {
+        email: {
+          type: "string",
+          required: true,
+          unique: false,
+          effects: [{ kind: "transform", apply: lowercase }],
+        },
+        tags: {
+          type: "array",
+          required: false,
+          unique: false,
+          items: {
+            type: "string",
+            required: true,
+            unique: false,
+            effects: [{ kind: "transform", apply: lowercase }],
+          },
+        },
+      },
+    };
+    const { proxy, collection } = makeProxy("loose", schema);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    await proxy.create({ email: "A@Example.com", tags: ["X"] }, { validate: "off" });
+    await proxy.create({ email: "B@Example.com", tags: [42] });
+    await proxy.updateOne({}, { email: "C@Example.com" }, { validate: "off" });
+    await proxy.updateOne({}, { $push: { tags: { $each: ["Y"] } } }, { validate: "off" });
+
+    expect(collection.insertOne.mock.calls.map(([doc]) => doc)).toEqual([
+      { email: "a@example.com", tags: ["x"] },
+      { email: "b@example.com", tags: ["42"] },
+    ]);
+    expect(collection.updateOne.mock.calls.map(([, update]) => update)).toEqual([
+      { $set: { email: "c@example.com" } },
+      { $push: { tags: { $each: ["y"] } } },
+    ]);
+  });
+
+  it("keeps keys outside the schema at every level", async () => {
+    const schema: Schema = {
+      ...makeSchema(),
+      fields: {
+        email: { type: "string", required: true, unique: false },
+        meta: {
+          type: "object",
+          required: false,
+          unique: false,
+          properties: { source: { type: "string", required: false, unique: false } },
+        },
+      },
+    };
+    const { proxy, collection } = makeProxy("strict", schema);
+    const doc = { email: "a@example.com", extra: 1, meta: { source: "import", extra: 2 } };
+
+    await proxy.create(doc);
+    await proxy.updateOne({}, { $set: { meta: { source: "sync", extra: 3 } } });
+
+    expect(collection.insertOne.mock.calls[0]?.[0]).toEqual(doc);
+    expect(collection.updateOne.mock.calls[0]?.[1]).toEqual({
+      $set: { meta: { source: "sync", extra: 3 } },
+    });
+  });
+
+  it("validates update operator values in strict mode", async () => {
+    const { proxy, collection } = makeProxy("strict");
+
+    await expect(proxy.updateOne({}, { $set: { email: 123 } })).rejects.toBeInstanceOf(ZodError);
+    await proxy.updateOne({}, { $set: { email: "valid@example.com" } });
+
+    expect(collection.updateOne).toHaveBeenCalledTimes(1);
+  });
+
+  it("merges nested objects into dot paths with merge: true", async () => {
+    const schema: Schema = {
+      ...makeSchema(),
+      fields: {
+        email: { type: "string", required: true, unique: false },
+        address: {
+          type: "object",
+          required: false,
+          unique: false,
+          properties: {
+            city: { type: "string", required: true, unique: false },
+            zip: { type: "string", required: true, unique: false },
+          },
+        },
+        tags: {
+          type: "array",
+          required: false,
+          unique: false,
+          items: { type: "string", required: false, unique: false },
+        },
+      },
+    };
+    const { proxy, collection } = makeProxy("strict", schema);
+    const joinedAt = new Date();
+
+    await proxy.updateOne(
+      {},
+      { address: { city: "Lisbon" }, tags: ["a"], joinedAt },
+      { merge: true }
+    );
+
+    expect(collection.updateOne.mock.calls[0]?.[1]).toEqual({
+      $set: { "address.city": "Lisbon", tags: ["a"], joinedAt },
+    });
+    await expect(
+      proxy.updateOne({}, { address: { city: 1 } }, { merge: true })
+    ).rejects.toBeInstanceOf(ZodError);
+  });
+
+  it("uses the schema mergeUpdates setting by default", async () => {
+    const { proxy, collection } = makeProxy("off", { ...makeSchema(), mergeUpdates: true });
+
+    await proxy.updateMany({}, { profile: { name: "Ann" } });
+    await proxy.updateMany({}, { profile: { name: "Bob" } }, { merge: false });
+
+    expect(collection.updateMany.mock.calls[0]?.[1]).toEqual({ $set: { "profile.name": "Ann" } });
+    expect(collection.updateMany.mock.calls[1]?.[1]).toEqual({
+      $set: { profile: { name: "Bob" } },
+    });
+    expect(collection.updateMany.mock.calls[0]?.[2]).toEqual({});
+  });
+
+  it("fills in literal, factory and auto defaults on create", async () => {
+    const { proxy, collection } = makeProxy("off", makeDefaultsSchema());
+
+    await proxy.create({ email: "user@example.com", role: "ADMIN" });
+
+    expect(collection.insertOne).toHaveBeenCalledWith(
+      { email: "user@example.com", role: "ADMIN", tags: [], joinedAt: expect.any(Date) },
+      {}
+    );
+  });
+
+  it("only sets the given fields on plain updates of schemas with defaults", async () => {
+    const { proxy, collection } = makeProxy("strict", {
+      ...makeDefaultsSchema(),
+      timestamps: { updatedAt: "updatedAt" },
+    });
+
+    await proxy.updateOne({}, { email: "a@example.com" });
+
+    expect(collection.updateOne).toHaveBeenCalledWith(
+      {},
+      { $set: { email: "a@example.com", updatedAt: expect.any(Date) } },
+      expect.anything()
+    );
+  });
+
+  it("adds defaults to $setOnInsert on upsert without overriding written fields", async () => {
+    const { proxy, collection } = makeProxy("strict", makeDefaultsSchema());
+
+    await proxy.updateOne(
+      { email: "user@example.com" },
+      { $set: { role: "ADMIN" } },
+      { upsert: true }
+    );
+
+    expect(collection.updateOne).toHaveBeenCalledWith(
+      { email: "user@example.com" },
+      { $set: { role: "ADMIN" }, $setOnInsert: { tags: [], joinedAt: expect.any(Date) } },
+      { upsert: true }
+    );
+  });
+
+  it("resolves reference fields with a batched query on include", async () => {
+    const authorId = new ObjectId();
+    const users = makeProxy();
+    users.cursor.toArray.mockResolvedValue([{ _id: authorId, email: "author@example.com" }]);
+
+    const postSchema: Schema = {
+      ...makeSchema(),
+      name: "posts",
+      collection: "posts",
+      fields: { author: { type: "objectId", required: true, unique: false, ref: "users" } },
+    };
+    const cursor = {
+      toArray: vi.fn().mockResolvedValue([
+        { _id: new ObjectId(), author: authorId },
+        { _id: new ObjectId(), author: authorId },
+        { _id: new ObjectId(), author: new ObjectId() },
+      ]),
+    };
+    const db = {
+      collection: vi.fn().mockReturnValue({ find: vi.fn().mockReturnValue(cursor) }),
+    } as unknown as Db;
+    const posts = new CollectionProxy(db, postSchema, "strict", (name) =>
+      name === "users" ? (users.proxy as unknown as CollectionProxy<Schema>) : undefined
+    );
+
+    const result = await posts.findMany({}, { include: { author: true } });
+
+    expect(users.collection.find).toHaveBeenCalledOnce();
+    expect(users.collection.find).toHaveBeenCalledWith(
+      { _id: { $in: [authorId, expect.any(ObjectId)] } },
+      {}
+    );
+    expect(result[0]?.author).toEqual({ _id: authorId, email: "author@example.com" });
+    expect(result[1]?.author).toEqual({ _id: authorId, email: "author@example.com" });
+    expect(result[2]?.author).toBeNull();
+  });
+
+  it("stores reference ids given as hex strings as ObjectIds", async () => {
+    const authorId = new ObjectId();
+    const postSchema: Schema = {
+      ...makeSchema(),
+      fields: { author: { type: "objectId", required: true, unique: false, ref: "users" } },
+    };
+    const { proxy, collection } = makeProxy("strict", postSchema);
+
+    await proxy.create({ author: authorId.toHexString() });
+    await proxy.updateOne({}, { $set: { author: authorId.toHexString() } });
+
+    expect(collection.insertOne).toHaveBeenCalledWith({ author: authorId }, {});
+    expect(collection.updateOne).toHaveBeenCalledWith(
+      {},
+      { $set: { author: authorId } },
+      expect.anything()
+    );
+    await expect(proxy.create({ author: "not-an-id" })).rejects.toBeInstanceOf(ZodError);
+  });
+
+  it("builds a $near query for near()", async () => {
+    const { proxy, collection } = makeProxy();
+    const point = { type: "Point" as const, coordinates: [-73.98, 40.75] as [number, number] };
+
+    await proxy.near("location", point, { maxDistance: 2000, where: { isOpen: true } });
+
+    expect(collection.find).toHaveBeenCalledWith(
+      { isOpen: true, location: { $near: { $geometry: point, $maxDistance: 2000 } } },
+      {}
+    );
+  });
+
+  it("runs a $geoNear aggregation that keeps the distance in projections", async () => {
+    const { proxy, collection } = makeProxy();
+    const point = { type: "Point" as const, coordinates: [-73.98, 40.75] as [number, number] };
+
+    await proxy.geoNear("location", point, { limit: 5, select: { email: 1 } });
+
+    expect(collection.aggregate).toHaveBeenCalledWith(
+      [
+        {
+          $geoNear: {
+            near: point,
+            key: "location",
+            distanceField: "distance",
+            spherical: true,
+            query: {},
+          },
+        },
+        { $limit: 5 },
+        { $project: { email: 1, distance: 1 } },
+      ],
+      {}
+    );
+  });
+
+  describe("paginate", () => {
+    const docs = [1, 2, 3].map((n) => ({
+      _id: new ObjectId(),
+      email: `user${n}@example.com`,
+      createdAt: new Date(2024, 0, n),
+    }));
+
+    it("fetches one extra document to detect the next page and sorts by _id last", async () => {
+      const { proxy, collection, cursor } = makeProxy();
+      cursor.toArray.mockResolvedValueOnce(docs);
+
+      const page = await proxy.paginate({}, { sort: { createdAt: -1 }, first: 2 });
+
+      expect(collection.find).toHaveBeenCalledWith(
+        {},
+        { sort: { createdAt: -1, _id: -1 }, limit: 3 }
+      );
+      expect(page.items).toEqual(docs.slice(0, 2));
+      expect(page.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: false });
+    });
+
+    it("continues after the end cursor using the sort key values and _id", async () => {
+      const { proxy, collection, cursor } = makeProxy();
+      cursor.toArray.mockResolvedValueOnce(docs.slice(0, 2));
+      const first = await proxy.paginate({}, { sort: { createdAt: -1 }, first: 2 });
+
+      await proxy.paginate(
+        {},
+        { sort: { createdAt: -1 }, first: 2, after: first.pageInfo.endCursor }
+      );
+
+      const last = docs[1]!;
+      expect(collection.find).toHaveBeenLastCalledWith(
+        {
+          $and: [
+            {},
+            {
+              $or: [
+                { $or: [{ createdAt: { $lt: last.createdAt } }, { createdAt: null }] },
+                { $and: [{ createdAt: last.createdAt }, { _id: { $lt: last._id } }] },
+              ],
+            },
+          ],
+        },
+        { sort: { createdAt: -1, _id: -1 }, limit: 3 }
+      );
+    });
+
+    it("pages backward in reverse order and restores the requested order", async () => {
+      const { proxy, collection, cursor } = makeProxy();
+      const before = Buffer.from(JSON.stringify([{ $oid: docs[2]!._id.toHexString() }])).toString(
+        "base64url"
+      );
+      cursor.toArray.mockResolvedValueOnce([docs[1], docs[0]]);
+
+      const page = await proxy.paginate({}, { last: 2, before });
+
+      expect(collection.find).toHaveBeenCalledWith(
+        { $and: [{}, { $or: [{ _id: { $lt: docs[2]!._id } }] }] },
+        { sort: { _id: -1 }, limit: 3 }
+      );
+      expect(page.items).toEqual([docs[0], docs[1]]);
+      expect(page.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: false });
+    });
+
+    it("projects sort fields for cursors and removes them from the items", async () => {
+      const { proxy, collection, cursor } = makeProxy();
+      cursor.toArray.mockResolvedValueOnce([{ ...docs[0] }]);
+
+      const page = await proxy.paginate({}, { sort: { createdAt: 1 }, select: { email: 1 } });
+
+      expect(collection.find).toHaveBeenCalledWith(
+        {},
+        { sort: { createdAt: 1, _id: 1 }, limit: 21, projection: { email: 1, createdAt: 1 } }
+      );
+      expect(page.items).toEqual([{ _id: docs[0]!._id, email: docs[0]!.email }]);
+      expect(page.pageInfo.endCursor).not.toBeNull();
+    });
+
+    it("rejects cursors built for another sort", async () => {
+      const { proxy } = makeProxy();
+      const after = Buffer.from(JSON.stringify([1])).toString("base64url");
+
+      await expect(proxy.paginate({}, { sort: { createdAt: 1 }, after })).rejects.toThrow(
+        "Invalid pagination cursor"
+      );
+    });
+  });
+
+  describe("page", () => {
+    it("returns the items and total of one page from a single $facet aggregation", async () => {
+      const { proxy, collection } = makeProxy("strict", makeSoftDeleteSchema());
+      const items = [{ _id: new ObjectId(), email: "a@example.com" }];
+      collection.aggregate.mockReturnValueOnce({
+        toArray: vi.fn().mockResolvedValue([{ items, total: [{ count: 21 }] }]),
+      });
+
+      const result = await proxy.page(
+        { email: /@example\.com$/ },
+        { page: 3, perPage: 10, sort: { email: 1 }, select: { email: 1 } }
+      );
+
+      expect(collection.aggregate).toHaveBeenCalledWith(
+        [
+          { $match: { email: /@example\.com$/, deletedAt: null } },
+          {
+            $facet: {
+              items: [
+                { $sort: { email: 1 } },
+                { $skip: 20 },
+                { $limit: 10 },
+                { $project: { email: 1 } },
+              ],
+              total: [{ $count: "count" }],
+            },
+          },
+        ],
+        {}
+      );
+      expect(result).toEqual({ items, total: 21, page: 3, perPage: 10, pageCount: 3 });
+    });
+
+    it("reports an empty page when nothing matches", async () => {
+      const { proxy, collection } = makeProxy();
+      collection.aggregate.mockReturnValueOnce({
+        toArray: vi.fn().mockResolvedValue([{ items: [], total: [] }]),
+      });
+
+      const result = await proxy.page();
+
+      expect(result).toEqual({ items: [], total: 0, page: 1, perPage: 20, pageCount: 0 });
+    });
+  });
+
+  describe("iterate", () => {
+    const docs = [1, 2, 3, 4, 5].map((n) => ({
+      _id: new ObjectId(),
+      email: `user${n}@example.com`,
+    }));
+
+    it("streams documents with the find options and closes the cursor", async () => {
+      const { proxy, collection, cursor } = makeProxy();
+      cursor.toArray.mockResolvedValueOnce(docs);
+
+      const seen: Document[] = [];
+      for await (const doc of proxy.iterate({}, { batchSize: 2, sort: { email: 1 } })) {
+        seen.push(doc);
+      }
+
+      expect(collection.find).toHaveBeenCalledWith({}, { batchSize: 2 });
+      expect(cursor.sort).toHaveBeenCalledWith({ email: 1 });
+      expect(seen).toEqual(docs);
+      expect(cursor.close).toHaveBeenCalledTimes(1);
+    });
+
+    it("closes the cursor when the loop breaks early", async () => {
+      const { proxy, cursor } = makeProxy();
+      cursor.toArray.mockResolvedValueOnce(docs);
+
+      for await (const doc of proxy.iterate()) {
+        if (doc.email === "user2@example.com") break;
+      }
+
+      expect(cursor.close).toHaveBeenCalledTimes(1);
+    });
+
+    it("groups documents into batches of the given size", async () => {
+      const { proxy, cursor } = makeProxy();
+      cursor.toArray.mockResolvedValueOnce(docs);
+
+      const sizes: number[] = [];
+      for await (const batch of proxy.iterate().batches(2)) {
+        sizes.push(batch.length);
+      }
+
+      expect(sizes).toEqual([2, 2, 1]);
+      expect(cursor.close).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("find and modify", () => {
+    const timestampsSchema = (): Schema => ({
+      ...makeSoftDeleteSchema(),
+      timestamps: { createdAt: "createdAt", updatedAt: "updatedAt" },
+    });
+
+    it("validates and timestamps findOneAndUpdate like updateOne", async () => {
+      const { proxy, collection } = makeProxy("strict", timestampsSchema());
+
+      await expect(proxy.findOneAndUpdate({}, { $set: { email: 123 } })).rejects.toBeInstanceOf(
+        ZodError
+      );
+      await proxy.findOneAndUpdate(
+        { email: "a@example.com" },
+        { email: "b@example.com" },
+        { returnDocument: "after", select: { email: 1 }, sort: { createdAt: 1 }, upsert: true }
+      );
+
+      expect(collection.findOneAndUpdate).toHaveBeenCalledWith(
+        { email: "a@example.com", deletedAt: null },
+        {
+          $set: { email: "b@example.com", updatedAt: expect.any(Date) },
+          $setOnInsert: { createdAt: expect.any(Date) },
+        },
+        { returnDocument: "after", upsert: true, projection: { email: 1 }, sort: { createdAt: 1 } }
+      );
+    });
+
+    it("replaces with a validated document and keeps the stored createdAt", async () => {
+      const { proxy, collection } = makeProxy("strict", timestampsSchema());
+      const id = new ObjectId();
+
+      await expect(proxy.findByIdAndReplace(id, { name: "no email" })).rejects.toBeInstanceOf(
+        ZodError
+      );
+      await proxy.findByIdAndReplace(id, { email: "a@example.com" });
+
+      expect(collection.findOneAndReplace).not.toHaveBeenCalled();
+      expect(collection.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: id, deletedAt: null },
+        [
+          {
+            $replaceWith: {
+              $mergeObjects: [
+                { _id: "$_id" },
+                { $literal: { email: "a@example.com", updatedAt: expect.any(Date) } },
+                { createdAt: { $ifNull: ["$createdAt", expect.any(Date)] } },
+              ],
+            },
+          },
+        ],
+        {}
+      );
+    });
+
+    it("replaces the document as is when timestamps are disabled", async () => {
+      const { proxy, collection } = makeProxy();
+
+      await proxy.findOneAndReplace({ email: "a@example.com" }, { email: "b@example.com" });
+
+      expect(collection.findOneAndReplace).toHaveBeenCalledWith(
+        { email: "a@example.com" },
+        { email: "b@example.com" },
+        {}
+      );
+    });
+
+    it("soft deletes in findOneAndDelete on soft delete schemas", async () => {
+      const { proxy, collection } = makeProxy("strict", makeSoftDeleteSchema());
+
+      await proxy.findOneAndDelete({ email: "a@example.com" }, { sort: { email: 1 } });
+      await proxy.findOneAndDelete({ email: "b@example.com" }, { soft: false });
+
+      expect(collection.findOneAndUpdate).toHaveBeenCalledWith(
+        { email: "a@example.com", deletedAt: null },
+        { $set: { deletedAt: expect.any(Date) } },
+        { sort: { email: 1 } }
+      );
+      expect(collection.findOneAndDelete).toHaveBeenCalledWith({ email: "b@example.com" }, {});
+    });
+  });
+
+  describe("replace and upsert", () => {
+    const timestampsSchema = (): Schema => ({
+      ...makeDefaultsSchema(),
+      timestamps: { createdAt: "createdAt", updatedAt: "updatedAt" },
+    });
+
+    it("keeps createdAt when replacing through replaceOne", async () => {
+      const { proxy, collection } = makeProxy("strict", timestampsSchema());
+
+      await proxy.replaceOne({ email: "a@example.com" }, { email: "b@example.com", role: "ADMIN" });
+
+      const [filter, pipeline] = collection.updateOne.mock.calls[0] ?? [];
+      expect(filter).toEqual({ email: "a@example.com" });
+      expect(pipeline).toEqual([
+        {
+          $replaceWith: {
+            $mergeObjects: [
+              { _id: "$_id" },
+              {
+                $literal: {
+                  email: "b@example.com",
+                  role: "ADMIN",
+                  tags: [],
+                  joinedAt: expect.any(Date),
+                  updatedAt: expect.any(Date),
+                },
+              },
+              { createdAt: { $ifNull: ["$createdAt", expect.any(Date)] } },
+            ],
+          },
+        },
+      ]);
+      expect(collection.replaceOne).not.toHaveBeenCalled();
+    });
+
+    it("does not replace soft-deleted documents", async () => {
+      const { proxy, collection } = makeProxy("strict", makeSoftDeleteSchema());
+      const id = new ObjectId();
+
+      await proxy.replaceById(id, { email: "b@example.com" });
+
+      expect(collection.replaceOne).toHaveBeenCalledWith(
+        { _id: id, deletedAt: null },
+        { email: "b@example.com" },
+        {}
+      );
+    });
+
+    it("rejects replacements that are not full documents", async () => {
+      const { proxy, collection } = makeProxy();
+
+      await expect(proxy.replaceById(new ObjectId(), { role: "ADMIN" })).rejects.toBeInstanceOf(
+        ZodError
+      );
+      expect(collection.replaceOne).not.toHaveBeenCalled();
+    });
+
+    it("writes the create branch with $setOnInsert and the update branch in both cases", async () => {
+      const { proxy, collection } = makeProxy("strict", timestampsSchema());
+
+      await proxy.upsert(
+        { email: "a@example.com" },
+        { create: { email: "a@example.com", role: "ADMIN" }, update: { $set: { role: "USER" } } }
+      );
+
+      expect(collection.findOneAndUpdate).toHaveBeenCalledWith(
+        { email: "a@example.com" },
+        {
+          $set: { role: "USER", updatedAt: expect.any(Date) },
+          $setOnInsert: {
+            email: "a@example.com",
+            tags: [],
+            joinedAt: expect.any(Date),
+            createdAt: expect.any(Date),
+          },
+        },
+        { upsert: true, returnDocument: "after" }
+      );
+    });
+
+    it("validates the create branch as a full document", async () => {
+      const { proxy, collection } = makeProxy();
+
+      await expect(
+        proxy.upsert({ email: "a@example.com" }, { create: {}, update: { $set: { email: "b" } } })
+      ).rejects.toBeInstanceOf(ZodError);
+      expect(collection.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it("does not match soft-deleted documents", async () => {
+      const { proxy, collection } = makeProxy("strict", makeSoftDeleteSchema());
+
+      await proxy.upsert(
+        { email: "a@example.com" },
+        { create: { email: "a@example.com" }, update: { $set: { email: "a@example.com" } } }
+      );
+
+      expect(collection.findOneAndUpdate).toHaveBeenCalledWith(
+        { email: "a@example.com", deletedAt: null },
+        { $set: { email: "a@example.com" } },
+        { upsert: true, returnDocument: "after" }
+      );
+    });
+  });
+
+  describe("bulkWrite", () => {
+    it("applies defaults, validation, timestamps and soft deletes to each operation", async () => {
+      const schema: Schema = {
+        ...makeDefaultsSchema(),
+        softDelete: { deletedAt: "deletedAt" },
+        timestamps: { createdAt: "createdAt", updatedAt: "updatedAt" },
+      };
+      const { proxy, collection } = makeProxy("strict", schema);
+      const id = new ObjectId();
+      collection.bulkWrite.mockResolvedValueOnce(
+        bulkResult({ insertedCount: 1, insertedIds: { 0: id } })
+      );
+
+      const result = await proxy.bulkWrite([
+        { insertOne: { document: { email: "a@example.com" } } },
+        { updateMany: { filter: { role: "USER" }, update: { $set: { role: "ADMIN" } } } },
+        { deleteOne: { filter: { email: "b@example.com" } } },
+      ]);
+
+      expect(collection.bulkWrite).toHaveBeenCalledWith(
+        [
+          {
+            insertOne: {
+              document: {
+                email: "a@example.com",
+                role: "USER",
+                tags: [],
+                joinedAt: expect.any(Date),
+                createdAt: expect.any(Date),
+                updatedAt: expect.any(Date),
+              },
+            },
+          },
+          {
+            updateMany: {
+              filter: { role: "USER", deletedAt: null },
+              update: { $set: { role: "ADMIN", updatedAt: expect.any(Date) } },
+            },
+          },
+          {
+            updateOne: {
+              filter: { email: "b@example.com", deletedAt: null },
+              update: { $set: { deletedAt: expect.any(Date), updatedAt: expect.any(Date) } },
+            },
+          },
+        ],
+        { ordered: true }
+      );
+      expect(result).toMatchObject({ insertedCount: 1, insertedIds: { 0: id }, errors: [] });
+    });
+
+    it("does not update or replace soft-deleted documents", async () => {
+      const { proxy, collection } = makeProxy("strict", makeSoftDeleteSchema());
+
+      await proxy.bulkWrite([
+        { updateOne: { filter: { email: "a@example.com" }, update: { $set: { email: "b" } } } },
+        { replaceOne: { filter: { email: "c@example.com" }, replacement: { email: "d" } } },
+      ]);
+
+      const [models] = collection.bulkWrite.mock.calls[0] ?? [];
+      expect(models).toEqual([
+        {
+          updateOne: {
+            filter: { email: "a@example.com", deletedAt: null },
+            update: { $set: { email: "b" } },
+          },
+        },
+        {
+          replaceOne: {
+            filter: { email: "c@example.com", deletedAt: null },
+            replacement: { email: "d" },
+          },
+        },
+      ]);
+    });
+
+    it("skips invalid operations and reports errors by input index when unordered", async () => {
+      const { proxy, collection } = makeProxy();
+      const writeError = { index: 1, code: 11000, errmsg: "duplicate key" } as WriteError;
+      const id = new ObjectId();
+      collection.bulkWrite.mockRejectedValueOnce(
+        new MongoBulkWriteError(
+          { message: "duplicate key", code: 11000, writeErrors: [writeError] },
+          bulkResult({ insertedCount: 1, insertedIds: { 0: id } })
+        )
+      );
+
+      const result = await proxy.bulkWrite(
+        [
+          { insertOne: { document: { email: "a@example.com" } } },
+          { insertOne: { document: { email: 42 } } },
+          { insertOne: { document: { email: "a@example.com" } } },
+        ],
+        { ordered: false }
+      );
+
+      expect(collection.bulkWrite.mock.calls[0]?.[0]).toHaveLength(2);
+      expect(result.insertedIds).toEqual({ 0: id });
+      expect(result.errors.map(({ index }) => index)).toEqual([1, 2]);
+      expect(result.errors[0]?.error).toBeInstanceOf(ZodError);
+      expect(result.errors[1]?.error).toBe(writeError);
+    });
+
+    it("stops at the first invalid operation when ordered", async () => {
+      const { proxy, collection } = makeProxy();
+
+      const result = await proxy.bulkWrite([
+        { insertOne: { document: { email: 42 } } },
+        { insertOne: { document: { email: "a@example.com" } } },
+      ]);
+
+      expect(collection.bulkWrite).not.toHaveBeenCalled();
+      expect(result.errors).toHaveLength(1);
+    });
+  });
+
+  describe("upsertMany", () => {
+    const productSchema = (): Schema => ({
+      ...makeSchema(),
+      name: "products",
+      collection: "products",
+      timestamps: { createdAt: "createdAt", updatedAt: "updatedAt" },
+      fields: {
+        sku: { type: "string", required: true, unique: true },
+        price: { type: "number", required: true, unique: false },
+      },
+    });
+
+    it("upserts new and changed documents and skips unchanged ones", async () => {
+      const { proxy, collection, cursor } = makeProxy("strict", productSchema());
+      cursor.toArray.mockResolvedValueOnce([
+        { _id: new ObjectId(), sku: "A", price: 10, createdAt: new Date() },
+        { _id: new ObjectId(), sku: "B", price: 20, createdAt: new Date() },
+      ]);
+      collection.bulkWrite.mockResolvedValueOnce(
+        bulkResult({ matchedCount: 1, modifiedCount: 1, upsertedCount: 1 })
+      );
+
+      const result = await proxy.upsertMany(
+        [
+          { sku: "A", price: 10 },
+          { sku: "B", price: 25 },
+          { sku: "C", price: 30 },
+          { sku: "D", price: "free" },
+        ],
+        { key: "sku" }
+      );
+
+      expect(collection.find).toHaveBeenCalledWith(
+        { sku: { $in: ["A", "B", "C"] } },
+        { session: undefined }
+      );
+      const [models, options] = collection.bulkWrite.mock.calls[0] ?? [];
+      expect(models).toEqual(
+        ["B", "C"].map((sku) => ({
+          updateOne: {
+            filter: { sku },
+            update: {
+              $set: { sku, price: sku === "B" ? 25 : 30, updatedAt: expect.any(Date) },
+              $setOnInsert: { createdAt: expect.any(Date) },
+            },
+            upsert: true,
+          },
+        }))
+      );
+      expect(options).toEqual({ ordered: false });
+      expect(result).toMatchObject({
+        insertedCount: 1,
+        updatedCount: 1,
+        unchangedCount: 1,
+        deletedCount: 0,
+      });
+      expect(result.errors.map(({ index }) => index)).toEqual([3]);
+    });
+
+    it("only compares and sets the given fields, and applies defaults on insert", async () => {
+      const schema = productSchema();
+      const { proxy, collection, cursor } = makeProxy("strict", {
+        ...schema,
+        fields: {
+          ...schema.fields,
+          status: { type: "string", required: false, unique: false, default: "active" },
+          syncedAt: { type: "date", required: false, unique: false, default: "auto" },
+        },
+      });
+      cursor.toArray.mockResolvedValueOnce([
+        { _id: new ObjectId(), sku: "A", price: 10, status: "archived", syncedAt: new Date(0) },
+        { _id: new ObjectId(), sku: "B", price: 20, status: "archived", syncedAt: new Date(0) },
+      ]);
+      collection.bulkWrite.mockResolvedValueOnce(bulkResult({ matchedCount: 1, modifiedCount: 1 }));
+
+      const result = await proxy.upsertMany(
+        [
+          { sku: "A", price: 10 },
+          { sku: "B", price: 25 },
+        ],
+        { key: "sku" }
+      );
+
+      const [models] = collection.bulkWrite.mock.calls[0] ?? [];
+      expect(models).toEqual([
+        {
+          updateOne: {
+            filter: { sku: "B" },
+            update: {
+              $set: { sku: "B", price: 25, updatedAt: expect.any(Date) },
+              $setOnInsert: {
+                status: "active",
+                syncedAt: expect.any(Date),
+                createdAt: expect.any(Date),
+              },
+            },
+            upsert: true,
+          },
+        },
+      ]);
+      expect(result).toMatchObject({ updatedCount: 1, unchangedCount: 1 });
+    });
+
+    it("does not match soft-deleted documents", async () => {
+      const { proxy, collection } = makeProxy("strict", {
+        ...productSchema(),
+        softDelete: { deletedAt: "deletedAt" },
+      });
+
+      await proxy.upsertMany([{ sku: "A", price: 10 }], { key: "sku" });
+
+      expect(collection.find).toHaveBeenCalledWith(
+        { sku: { $in: ["A"] }, deletedAt: null },
+        { session: undefined }
+      );
+      const [models] = collection.bulkWrite.mock.calls[0] ?? [];
+      expect(models?.[0]).toMatchObject({ updateOne: { filter: { sku: "A", deletedAt: null } } });
+    });
+
+    it("writes in chunks and deletes documents missing from the input", async () => {
+      const { proxy, collection } = makeProxy("strict", productSchema());
+      collection.deleteMany.mockResolvedValueOnce({ deletedCount: 4 });
+
+      const result = await proxy.upsertMany(
+        [
+          { sku: "A", price: 1 },
+          { sku: "B", price: 2 },
+          { sku: "C", price: 3 },
+        ],
+        { key: "sku", chunkSize: 2, deleteMissing: true }
+      );
+
+      expect(collection.bulkWrite).toHaveBeenCalledTimes(2);
+      expect(collection.deleteMany).toHaveBeenCalledWith(
+        { sku: { $nin: ["A", "B", "C"] } },
+        { session: undefined }
+      );
+      expect(result.deletedCount).toBe(4);
+    });
+
+    it("keeps the transformed keys when deleting missing documents", async () => {
+      const schema = productSchema();
+      const { proxy, collection } = makeProxy("strict", {
+        ...schema,
+        fields: {
+          ...schema.fields,
+          sku: {
+            type: "string",
+            required: true,
+            unique: true,
+            effects: [{ kind: "transform", apply: (sku) => String(sku).trim().toLowerCase() }],
+          },
+        },
+      });
+
+      await proxy.upsertMany([{ sku: " ABC ", price: 1 }], { key: "sku", deleteMissing: true });
+
+      const [models] = collection.bulkWrite.mock.calls[0] ?? [];
+      expect(models?.[0]).toMatchObject({ updateOne: { filter: { sku: "abc" } } });
+      expect(collection.deleteMany).toHaveBeenCalledWith(
+        { sku: { $nin: ["abc"] } },
+        { session: undefined }
+      );
+    });
+
+    it("skips deleting missing documents when a document fails validation", async () => {
+      const { proxy, collection } = makeProxy("strict", productSchema());
+
+      const result = await proxy.upsertMany(
+        [
+          { sku: "A", price: 1 },
+          { sku: "B", price: "free" },
+        ],
+        { key: "sku", deleteMissing: true }
+      );
+
+      expect(collection.bulkWrite).toHaveBeenCalledTimes(1);
+      expect(collection.deleteMany).not.toHaveBeenCalled();
+      expect(result.errors.map(({ index }) => index)).toEqual([1]);
+    });
+  });
+
+  describe("createMany", () => {
+    it("throws on the first invalid document before writing anything", async () => {
+      const { proxy, collection } = makeProxy();
+
+      await expect(
+        proxy.createMany([{ email: "a@example.com" }, { email: 42 }])
+      ).rejects.toBeInstanceOf(ZodError);
+      expect(collection.insertMany).not.toHaveBeenCalled();
+    });
+
+    it("skips invalid documents and maps inserted ids to input indexes across chunks", async () => {
+      const { proxy, collection } = makeProxy();
+      const ids = [new ObjectId(), new ObjectId(), new ObjectId()];
+      collection.insertMany
+        .mockResolvedValueOnce({ insertedCount: 2, insertedIds: { 0: ids[0], 1: ids[1] } })
+        .mockResolvedValueOnce({ insertedCount: 1, insertedIds: { 0: ids[2] } });
+
+      const result = await proxy.createMany(
+        [
+          { email: "a@example.com" },
+          { email: 42 },
+          { email: "b@example.com" },
+          { email: "c@example.com" },
+        ],
+        { chunkSize: 2, continueOnValidationError: true }
+      );
+
+      expect(collection.insertMany).toHaveBeenCalledTimes(2);
+      expect(collection.insertMany.mock.calls[1]?.[0]).toEqual([{ email: "c@example.com" }]);
+      expect(result.insertedCount).toBe(3);
+      expect(result.insertedIds).toEqual({ 0: ids[0], 2: ids[1], 3: ids[2] });
+      expect(result.errors.map(({ index }) => index)).toEqual([1]);
+    });
+
+    it("reports write errors by input index and keeps going when unordered", async () => {
+      const { proxy, collection } = makeProxy();
+      const writeError = { index: 1, code: 11000, errmsg: "duplicate key" } as WriteError;
+      const id = new ObjectId();
+      collection.insertMany
+        .mockRejectedValueOnce(
+          new MongoBulkWriteError(
+            { message: "duplicate key", code: 11000, writeErrors: [writeError] },
+            bulkResult({ insertedCount: 1, insertedIds: { 0: id } })
+          )
+        )
+        .mockResolvedValueOnce({ insertedCount: 1, insertedIds: { 0: id } });
+
+      const result = await proxy.createMany(
+        [{ email: "a@example.com" }, { email: "a@example.com" }, { email: "b@example.com" }],
+        { chunkSize: 2, ordered: false }
+      );
+
+      expect(collection.insertMany.mock.calls[0]?.[1]).toEqual({ ordered: false });
+      expect(result.insertedCount).toBe(2);
+      expect(Object.keys(result.insertedIds)).toEqual(["0", "2"]);
+      expect(result.errors).toEqual([{ index: 1, error: writeError }]);
+    });
+  });
+
+  describe("watch", () => {
+    const events = [
+      { _id: { _data: "t1" }, operationType: "insert", fullDocument: { email: "a@x.com" } },
+      { _id: { _data: "t2" }, operationType: "delete", documentKey: { _id: new ObjectId() } },
+    ];
+
+    it("opens a change stream with the pipeline and closes it when the loop breaks", async () => {
+      const { proxy, collection } = makeProxy();
+      const stream = changeStream(events);
+      collection.watch.mockReturnValue(stream);
+      const pipeline = [{ $match: { operationType: "insert" } }];
+
+      const received: Document[] = [];
+      for await (const event of proxy.watch(pipeline, { fullDocument: "updateLookup" })) {
+        received.push(event);
+        break;
+      }
+
+      expect(collection.watch).toHaveBeenCalledWith(pipeline, { fullDocument: "updateLookup" });
+      expect(received).toEqual([events[0]]);
+      expect(stream.close).toHaveBeenCalled();
+    });
+
+    it("resumes after the stored token and saves the token of each processed event", async () => {
+      const { proxy, collection } = makeProxy();
+      collection.watch.mockReturnValue(changeStream(events));
+      const tokenStore = {
+        load: vi.fn().mockResolvedValue({ _data: "t0" }),
+        save: vi.fn().mockResolvedValue(undefined),
+      };
+
+      const stream = proxy.watch([], { startAfter: { _data: "old" }, batchSize: 10, tokenStore });
+      for await (const event of stream) {
+        void event;
+      }
+
+      expect(collection.watch).toHaveBeenCalledWith([], {
+        batchSize: 10,
+        resumeAfter: { _data: "t0" },
+      });
+      expect(tokenStore.save.mock.calls).toEqual([[{ _data: "t1" }], [{ _data: "t2" }]]);
+    });
+
+    it("saves the token of the last event when the loop breaks", async () => {
+      const { proxy, collection } = makeProxy();
+      collection.watch.mockReturnValue(changeStream(events));
+      const tokenStore = { load: vi.fn().mockResolvedValue(null), save: vi.fn() };
+
+      for await (const event of proxy.watch([], { tokenStore })) {
+        void event;
+        break;
+      }
+
+      expect(tokenStore.save.mock.calls).toEqual([[{ _data: "t1" }]]);
+    });
+
+    it("keeps the start options when no token is stored", async () => {
+      const { proxy, collection } = makeProxy();
+      const tokenStore = { load: vi.fn().mockResolvedValue(null), save: vi.fn() };
+
+      for await (const event of proxy.watch([], { startAfter: { _data: "t5" }, tokenStore })) {
+        void event;
+      }
+
+      expect(collection.watch).toHaveBeenCalledWith([], { startAfter: { _data: "t5" } });
+    });
+
+    it("ends a waiting loop when the stream is closed", async () => {
+      const { proxy, collection } = makeProxy();
+      let fail: ((error: Error) => void) | undefined;
+      const stream = {
+        close: vi.fn(async () => fail?.(new Error("ChangeStream is closed"))),
+        async *[Symbol.asyncIterator]() {
+          yield await new Promise<Document>((_, reject) => {
+            fail = reject;
+          });
+        },
+      };
+      collection.watch.mockReturnValue(stream);
+
+      const changes = proxy.watch();
+      const loop = (async () => {
+        for await (const event of changes) {
+          void event;
+        }
+      })();
+      await vi.waitFor(() => expect(fail).toBeDefined());
+      await changes.close();
+
+      await expect(loop).resolves.toBeUndefined();
+    });
+
+    it("restricts database change streams to the watched schemas", () => {
+      const posts = { ...makeSchema(), name: "posts", collection: "blog_posts" };
+
+      const [match, tag] = schemaChangePipeline([makeSchema(), posts]);
+
+      expect(match).toEqual({ $match: { "ns.coll": { $in: ["users", "blog_posts"] } } });
+      expect(tag?.$addFields.schema.$switch.branches).toEqual([
+        { case: { $eq: ["$ns.coll", "users"] }, then: "users" },
+        { case: { $eq: ["$ns.coll", "blog_posts"] }, then: "posts" },
+      ]);
+    });
+  });
 });
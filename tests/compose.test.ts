@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  extendSchema,
+  mergeSchemas,
+  omitSchema,
+  partialSchema,
+  pickSchema,
+  schema,
+  s,
+} from "../src/schema";
+import { zodCreateSchema } from "../src/validation/zod-schema";
+
+const userSchema = schema("users", {
+  timestamps: true,
+  softDelete: true,
+  fields: {
+    email: s.string().email().required(),
+    name: s.string().required(),
+    passwordHash: s.string().required(),
+  },
+  indexes: [{ fields: { email: 1, name: 1 } }, { fields: { passwordHash: 1, createdAt: -1 } }],
+});
+
+describe("schema composition", () => {
+  it("extends a schema with new fields, inheriting its config", () => {
+    const adminSchema = extendSchema(userSchema, "admins", {
+      fields: { level: s.number().required() },
+      indexes: [{ fields: { level: 1 } }],
+    });
+
+    expect(adminSchema.name).toBe("admins");
+    expect(adminSchema.collection).toBe("admins");
+    expect(Object.keys(adminSchema.fields)).toEqual(["email", "name", "passwordHash", "level"]);
+    expect(adminSchema.timestamps).toEqual(userSchema.timestamps);
+    expect(adminSchema.softDelete).toEqual({ deletedAt: "deletedAt" });
+    expect(adminSchema.indexes).toHaveLength(3);
+  });
+
+  it("overrides base fields and config in extend", () => {
+    const adminSchema = extendSchema(userSchema, "admins", {
+      collection: "app_admins",
+      timestamps: false,
+      fields: { name: s.string() },
+    });
+
+    expect(adminSchema.collection).toBe("app_admins");
+    expect(adminSchema.timestamps).toBe(false);
+    expect(adminSchema.fields.name?.required).toBe(false);
+  });
+
+  it("picks and omits fields, dropping indexes on removed fields", () => {
+    const picked = pickSchema(userSchema, "userSummaries", ["email", "name"]);
+    const omitted = omitSchema(userSchema, "publicUsers", ["passwordHash"]);
+
+    expect(Object.keys(picked.fields)).toEqual(["email", "name"]);
+    expect(Object.keys(omitted.fields)).toEqual(["email", "name"]);
+    expect(picked.indexes).toEqual([{ fields: { email: 1, name: 1 } }]);
+    expect(omitted.indexes).toEqual([{ fields: { email: 1, name: 1 } }]);
+  });
+
+  it("makes every field optional with partial", () => {
+    const draftSchema = partialSchema(userSchema, "userDrafts");
+
+    expect(zodCreateSchema(draftSchema).safeParse({}).success).toBe(true);
+    expect(zodCreateSchema(draftSchema).safeParse({ email: "nope" }).success).toBe(false);
+  });
+
+  it("merges two schemas", () => {
+    const addressSchema = schema("addresses", {
+      fields: { city: s.string().required(), name: s.number() },
+    });
+    const merged = mergeSchemas(userSchema, "customers", addressSchema);
+
+    expect(Object.keys(merged.fields)).toEqual(["email", "name", "passwordHash", "city"]);
+    expect(merged.fields.name?.type).toBe("number");
+    expect(merged.timestamps).toEqual(userSchema.timestamps);
+  });
+});
@@ -0,0 +1,182 @@
+import {
+  BSON,
+  Binary,
+  Decimal128,
+  Double,
+  Int32,
+  Long,
+  ObjectId,
+  UUID,
+  type Db,
+  type Document,
+} from "mongodb";
+import { describe, expect, it, vi } from "vitest";
+import { collectionToMondelSchemaTs, pullDatabaseSchema, syncSchemaIndexes } from "../src/kit";
+import { schema, s } from "../src/schema";
+import type { Schema } from "../src/types";
+
+/** Runs a validator sync against a mock db and returns the `$jsonSchema` it would apply. */
+async function jsonSchemaOf(target: Schema): Promise<Document> {
+  const createCollection = vi.fn();
+  const db = {
+    collection: () => ({ createIndex: vi.fn() }),
+    listCollections: () => ({ hasNext: async () => false }),
+    createCollection,
+  } as unknown as Db;
+
+  await syncSchemaIndexes(db, [target], { applyValidators: true });
+  return createCollection.mock.calls[0]?.[1].validator.$jsonSchema;
+}
+
+describe("syncSchemaIndexes validators", () => {
+  it("maps union fields to a oneOf with one tagged object per variant", async () => {
+    const eventSchema = schema("events", {
+      fields: {
+        payload: s
+          .union("kind", {
+            click: { x: s.number().required() },
+            purchase: { amount: s.number().required(), note: s.string().optional() },
+          })
+          .required(),
+      },
+    });
+
+    const jsonSchema = await jsonSchemaOf(eventSchema);
+
+    expect(jsonSchema.required).toEqual(["payload"]);
+    expect(jsonSchema.properties.payload).toEqual({
+      bsonType: "object",
+      oneOf: [
+        {
+          bsonType: "object",
+          properties: {
+            x: { bsonType: ["double", "int", "long", "decimal"] },
+            kind: { enum: ["click"] },
+          },
+          additionalProperties: true,
+          required: ["kind", "x"],
+        },
+        {
+          bsonType: "object",
+          properties: {
+            amount: { bsonType: ["double", "int", "long", "decimal"] },
+            note: { bsonType: "string" },
+            kind: { enum: ["purchase"] },
+          },
+          additionalProperties: true,
+          required: ["kind", "amount"],
+        },
+      ],
+    });
+  });
+
+  it("maps BSON field types to their $jsonSchema bsonType", async () => {
+    const ledgerSchema = schema("ledger", {
+      fields: {
+        amount: s.decimal().required(),
+        sequence: s.long().required(),
+        quantity: s.int().min(0).required(),
+        checksum: s.binary().required(),
+      },
+    });
+
+    const { properties } = await jsonSchemaOf(ledgerSchema);
+
+    expect(properties).toEqual({
+      amount: { bsonType: "decimal" },
+      sequence: { bsonType: "long" },
+      quantity: { bsonType: "int", minimum: 0 },
+      checksum: { bsonType: "binData" },
+    });
+  });
+
+  it("adds null to the bsonType of nullable and plain non-required fields", async () => {
+    const profileSchema = schema("profiles", {
+      fields: {
+        handle: s.string().required(),
+        bio: s.string(),
+        nickname: s.string().optional(),
+        deletedReason: s.string().required().nullable(),
+        plan: s.enum(["FREE", "PRO"]),
+        contact: s.union("kind", { email: { address: s.string().required() } }),
+      },
+    });
+
+    const { properties, required } = await jsonSchemaOf(profileSchema);
+
+    expect(required).toEqual(["handle", "deletedReason"]);
+    expect(properties.handle).toEqual({ bsonType: "string" });
+    expect(properties.bio).toEqual({ bsonType: ["string", "null"] });
+    expect(properties.nickname).toEqual({ bsonType: "string" });
+    expect(properties.deletedReason).toEqual({ bsonType: ["string", "null"] });
+    expect(properties.plan).toEqual({
+      bsonType: ["string", "null"],
+      enum: ["FREE", "PRO", null],
+    });
+    expect(properties.contact.anyOf).toEqual([
+      expect.objectContaining({ bsonType: "object", oneOf: expect.any(Array) }),
+      { bsonType: "null" },
+    ]);
+  });
+});
+
+describe("pullDatabaseSchema", () => {
+  function makeDb(sample: Document) {
+    const findOne = vi.fn(async (_filter: Document, options: Document) =>
+      BSON.deserialize(BSON.serialize(sample), options)
+    );
+    const db = {
+      databaseName: "shop",
+      listCollections: () => ({ toArray: async () => [{ name: "orders" }] }),
+      collection: () => ({
+        findOne,
+        indexes: async () => [
+          { name: "_id_", key: { _id: 1 } },
+          { name: "sku_1", key: { sku: 1 }, unique: true },
+        ],
+      }),
+    } as unknown as Db;
+    return { db, findOne };
+  }
+
+  it("infers BSON numeric, binary and uuid field types from a sample document", async () => {
+    const { db, findOne } = makeDb({
+      _id: new ObjectId(),
+      quantity: new Int32(3),
+      price: new Double(9.5),
+      sequence: Long.fromNumber(42),
+      amount: Decimal128.fromString("19.99"),
+      checksum: new Binary(Buffer.from("abc")),
+      externalId: new UUID(),
+      lines: [{ qty: new Int32(1) }],
+    });
+
+    const manifest = await pullDatabaseSchema(db);
+    const fields = manifest.collections[0]?.fields ?? {};
+
+    expect(findOne).toHaveBeenCalledWith({}, { promoteValues: false });
+    expect(Object.fromEntries(Object.entries(fields).map(([name, f]) => [name, f.type]))).toEqual({
+      quantity: "int",
+      price: "number",
+      sequence: "long",
+      amount: "decimal",
+      checksum: "binary",
+      externalId: "uuid",
+      lines: "array",
+    });
+    expect(fields.lines?.items?.properties?.qty?.type).toBe("int");
+  });
+
+  it("renders the inferred fields and indexes as a schema module", async () => {
+    const { db } = makeDb({ quantity: new Int32(3), amount: Decimal128.fromString("1") });
+
+    const manifest = await pullDatabaseSchema(db);
+    const source = collectionToMondelSchemaTs(manifest.collections[0]!);
+
+    expect(source).toContain('export const order = defineSchema("orders", {');
+    expect(source).toContain('"quantity": s.int(),');
+    expect(source).toContain('"amount": s.decimal(),');
+    expect(source).toContain('"name": "sku_1"');
+    expect(source).not.toContain("_id_");
+  });
+});
@@ -0,0 +1,252 @@
+import type { ObjectId } from "mongodb";
+import { describe, expectTypeOf, it } from "vitest";
+import { schema, s } from "../src/schema";
+import type { SchemasToClient } from "../src/client";
+import type { CreateInput, InferSchemaType, UpdateOperators } from "../src/types";
+
+const userSchema = schema("users", {
+  timestamps: true,
+  fields: {
+    email: s.string().required(),
+    role: s.enum(["ADMIN", "USER"]).required().default("USER"),
+    nickname: s.string().optional(),
+    address: s.object({ city: s.string().required(), zip: s.string() }),
+    loginCount: s.number().default(0),
+    items: s.array(s.object({ sku: s.string().required(), qty: s.number() })),
+  },
+});
+
+const postSchema = schema("posts", {
+  fields: {
+    title: s.string().required(),
+    author: s.ref("users").required(),
+  },
+});
+
+const eventSchema = schema("events", {
+  fields: {
+    payload: s
+      .union("kind", {
+        click: { x: s.number().required() },
+        purchase: { amount: s.number().required(), note: s.string().optional() },
+      })
+      .required(),
+  },
+});
+
+type User = InferSchemaType<typeof userSchema>;
+type Payload = InferSchemaType<typeof eventSchema>["payload"];
+declare const payload: Payload;
+
+declare const db: SchemasToClient<readonly [typeof userSchema, typeof postSchema]>;
+type UserCreate = CreateInput<typeof userSchema>;
+
+describe("inferred document types", () => {
+  it("makes required and defaulted fields non-optional on read", () => {
+    expectTypeOf<User["_id"]>().toEqualTypeOf<ObjectId>();
+    expectTypeOf<User["email"]>().toEqualTypeOf<string>();
+    expectTypeOf<User["role"]>().toEqualTypeOf<"ADMIN" | "USER">();
+    expectTypeOf<User["createdAt"]>().toEqualTypeOf<Date>();
+    expectTypeOf<User>().toHaveProperty("nickname").toEqualTypeOf<string | undefined>();
+  });
+
+  it("only requires fields without a default on create", () => {
+    expectTypeOf<{ email: string }>().toMatchTypeOf<UserCreate>();
+    expectTypeOf<{ role: "ADMIN" }>().not.toMatchTypeOf<UserCreate>();
+    expectTypeOf<UserCreate>().not.toHaveProperty("createdAt");
+  });
+
+  it("adds null to non-required fields unless they are declared optional()", () => {
+    expectTypeOf<null>().toMatchTypeOf<User["address"]>();
+    expectTypeOf<NonNullable<User["address"]>["zip"]>().toEqualTypeOf<string | null | undefined>();
+    expectTypeOf<null>().not.toMatchTypeOf<User["nickname"]>();
+  });
+});
+
+describe("select", () => {
+  it("narrows results to the included fields and _id", async () => {
+    const user = await db.users.findOne({}, { select: { email: true } });
+
+    expectTypeOf(user).toBeNullable();
+    expectTypeOf(user!).toHaveProperty("email").toEqualTypeOf<string>();
+    expectTypeOf(user!).toHaveProperty("_id").toEqualTypeOf<ObjectId>();
+    expectTypeOf(user!).not.toHaveProperty("role");
+  });
+
+  it("drops _id when it is excluded from an inclusion", async () => {
+    const users = await db.users.findMany({}, { select: { _id: false, role: true } });
+
+    expectTypeOf(users[0]!).toHaveProperty("role").toEqualTypeOf<"ADMIN" | "USER">();
+    expectTypeOf(users[0]!).not.toHaveProperty("_id");
+  });
+
+  it("removes excluded fields and keeps the others", async () => {
+    const users = await db.users.findMany({}, { select: { email: false } });
+
+    expectTypeOf(users[0]!).not.toHaveProperty("email");
+    expectTypeOf(users[0]!).toHaveProperty("role").toEqualTypeOf<"ADMIN" | "USER">();
+    expectTypeOf(users[0]!).toHaveProperty("createdAt").toEqualTypeOf<Date>();
+  });
+
+  it("narrows paginated items and keeps the page info", async () => {
+    const page = await db.users.paginate({}, { first: 10, select: { email: true } });
+
+    expectTypeOf(page.items[0]!).toHaveProperty("email").toEqualTypeOf<string>();
+    expectTypeOf(page.items[0]!).toHaveProperty("_id").toEqualTypeOf<ObjectId>();
+    expectTypeOf(page.items[0]!).not.toHaveProperty("role");
+    expectTypeOf(page.pageInfo.hasNextPage).toEqualTypeOf<boolean>();
+  });
+
+  it("returns full documents from paginate without select", async () => {
+    const page = await db.users.paginate({}, { last: 10 });
+
+    expectTypeOf(page.items).toEqualTypeOf<User[]>();
+  });
+});
+
+describe("dot-notation paths", () => {
+  it("accepts nested paths in where and sort", () => {
+    void db.users.findMany({ "address.city": "Lisbon" }, { sort: { "address.city": 1 } });
+  });
+
+  it("rejects unknown paths and values of the wrong type", () => {
+    // @ts-expect-error typo in a nested where path
+    void db.users.findMany({ "address.cty": "Lisbon" });
+    // @ts-expect-error typo in a sort path
+    void db.users.findMany({}, { sort: { "adress.city": 1 } });
+    // @ts-expect-error city is a string
+    void db.users.findMany({ "address.city": 42 });
+  });
+});
+
+describe("update operators", () => {
+  type UserUpdate = UpdateOperators<typeof userSchema>;
+
+  it("addresses array elements with positional operators and indexes", () => {
+    expectTypeOf<{ $set: { "items.$.qty": number } }>().toMatchTypeOf<UserUpdate>();
+    expectTypeOf<{ $inc: { "items.$[].qty": number } }>().toMatchTypeOf<UserUpdate>();
+    expectTypeOf<{ $set: { "items.$[item].sku": string } }>().toMatchTypeOf<UserUpdate>();
+    expectTypeOf<{ $set: { "items.0.qty": number } }>().toMatchTypeOf<UserUpdate>();
+    void db.users.updateOne({}, { $set: { "items.$.qty": 2 } });
+  });
+
+  it("rejects array paths without a positional operator or index", () => {
+    // @ts-expect-error items is an array
+    const update: UserUpdate = { $set: { "items.qty": 1 } };
+    // @ts-expect-error qty is a number
+    const positional: UserUpdate = { $set: { "items.$.qty": "one" } };
+    void update;
+    void positional;
+  });
+
+  it("only unsets and renames fields declared without required()", () => {
+    expectTypeOf<{ $unset: { loginCount: "" } }>().toMatchTypeOf<UserUpdate>();
+    expectTypeOf<{ $unset: { "address.zip": "" } }>().toMatchTypeOf<UserUpdate>();
+    expectTypeOf<{ $rename: { loginCount: "logins" } }>().toMatchTypeOf<UserUpdate>();
+    // @ts-expect-error email is required
+    const unsetEmail: UserUpdate = { $unset: { email: "" } };
+    // @ts-expect-error role is required, even with a default
+    const unsetRole: UserUpdate = { $unset: { role: "" } };
+    // @ts-expect-error address.city is required
+    const unsetCity: UserUpdate = { $unset: { "address.city": "" } };
+    void unsetEmail;
+    void unsetRole;
+    void unsetCity;
+  });
+});
+
+describe("include", () => {
+  it("replaces included references with the target documents", async () => {
+    const post = await db.posts.findOne({}, { include: { author: true } });
+
+    expectTypeOf(post!.author).toEqualTypeOf<User | null>();
+    expectTypeOf(post!.title).toEqualTypeOf<string>();
+  });
+
+  it("keeps the ids of references that are not included", async () => {
+    const posts = await db.posts.findMany({});
+
+    expectTypeOf(posts[0]!.author).toEqualTypeOf<ObjectId>();
+  });
+
+  it("only accepts reference fields", () => {
+    // @ts-expect-error title is not a reference
+    void db.posts.findMany({}, { include: { title: true } });
+  });
+});
+
+describe("discriminated unions", () => {
+  it("tags each variant with its discriminator value", () => {
+    expectTypeOf<Payload["kind"]>().toEqualTypeOf<"click" | "purchase">();
+  });
+
+  it("narrows the variant fields on the discriminator", () => {
+    if (payload.kind === "click") {
+      expectTypeOf(payload.x).toEqualTypeOf<number>();
+      expectTypeOf(payload).not.toHaveProperty("amount");
+    } else {
+      expectTypeOf(payload.amount).toEqualTypeOf<number>();
+      expectTypeOf(payload.note).toEqualTypeOf<string | undefined>();
+    }
+  });
+
+  it("rejects variants missing their required fields", () => {
+    // @ts-expect-error a click needs x
+    const click: Payload = { kind: "click" };
+    // @ts-expect-error unknown variant
+    const view: Payload = { kind: "view", x: 1 };
+    void click;
+    void view;
+  });
+});
+
+describe("distinct", () => {
+  it("types the values of a top-level field", async () => {
+    const roles = await db.users.distinct("role");
+
+    expectTypeOf(roles).toEqualTypeOf<("ADMIN" | "USER")[]>();
+  });
+
+  it("flattens arrays into their elements for nested paths", async () => {
+    const skus = await db.users.distinct("items.sku", { role: "ADMIN" });
+
+    expectTypeOf(skus).toEqualTypeOf<string[]>();
+  });
+
+  it("rejects paths outside the schema", () => {
+    // @ts-expect-error unknown field
+    void db.users.distinct("missing");
+  });
+});
+
+describe("change streams", () => {
+  it("types watch events by the schema", async () => {
+    for await (const event of db.users.watch()) {
+      if (event.operationType === "insert") {
+        expectTypeOf(event.fullDocument).toEqualTypeOf<User>();
+      } else if (event.operationType === "update") {
+        const fields = event.updateDescription.updatedFields!;
+        expectTypeOf(fields.email).toEqualTypeOf<string | undefined>();
+        expectTypeOf(fields["address.city"]).toEqualTypeOf<string | undefined>();
+        expectTypeOf(fields["items.0.qty"]).toEqualTypeOf<unknown>();
+      }
+    }
+  });
+
+  it("narrows watchAll events on the schema name", async () => {
+    for await (const event of db.watchAll(["users", "posts"])) {
+      expectTypeOf(event.schema).toEqualTypeOf<"users" | "posts">();
+      if (event.operationType !== "insert") continue;
+      if (event.schema === "posts") {
+        expectTypeOf(event.fullDocument.title).toEqualTypeOf<string>();
+      } else {
+        expectTypeOf(event.fullDocument).toEqualTypeOf<User>();
+      }
+    }
+  });
+
+  it("only accepts registered schema names in watchAll", () => {
+    // @ts-expect-error unknown schema
+    void db.watchAll(["users", "orders"]);
+  });
+});
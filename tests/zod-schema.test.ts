@@ -0,0 +1,279 @@
+import { Binary, Decimal128, Long, UUID } from "mongodb";
+import { describe, expect, it } from "vitest";
+import { schema, s } from "../src/schema";
+import {
+  zodCreateSchema,
+  zodUpdateOperatorsSchema,
+  zodUpdateSchema,
+} from "../src/validation/zod-schema";
+
+describe("zodCreateSchema", () => {
+  describe("union fields", () => {
+    const eventSchema = schema("events", {
+      fields: {
+        payload: s
+          .union("type", {
+            click: { x: s.number().required(), y: s.number().required() },
+            purchase: { amount: s.number().min(0).required() },
+          })
+          .required(),
+      },
+    });
+
+    it("accepts documents matching one of the variants", () => {
+      const zod = zodCreateSchema(eventSchema);
+
+      expect(zod.safeParse({ payload: { type: "click", x: 1, y: 2 } }).success).toBe(true);
+      expect(zod.safeParse({ payload: { type: "purchase", amount: 10 } }).success).toBe(true);
+    });
+
+    it("rejects unknown tags and fields that belong to another variant", () => {
+      const zod = zodCreateSchema(eventSchema);
+
+      expect(zod.safeParse({ payload: { type: "view" } }).success).toBe(false);
+      expect(zod.safeParse({ payload: { type: "purchase", x: 1, y: 2 } }).success).toBe(false);
+    });
+  });
+
+  describe("BSON fields", () => {
+    const ledgerSchema = schema("ledger", {
+      fields: {
+        amount: s.decimal().required(),
+        sequence: s.long().required(),
+        quantity: s.int().min(0).required(),
+        checksum: s.binary(),
+        externalId: s.uuid(),
+      },
+    });
+
+    it("accepts BSON values of the declared type", () => {
+      const zod = zodCreateSchema(ledgerSchema);
+
+      const result = zod.safeParse({
+        amount: Decimal128.fromString("19.99"),
+        sequence: Long.fromNumber(42),
+        quantity: 3,
+        checksum: new Binary(Buffer.from("abc")),
+        externalId: new UUID(),
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects plain numbers for decimal and long, and fractions for int", () => {
+      const zod = zodCreateSchema(ledgerSchema);
+
+      expect(
+        zod.safeParse({ amount: 19.99, sequence: Long.fromNumber(1), quantity: 1 }).success
+      ).toBe(false);
+      expect(
+        zod.safeParse({ amount: Decimal128.fromString("1"), sequence: 1, quantity: 1 }).success
+      ).toBe(false);
+      expect(
+        zod.safeParse({
+          amount: Decimal128.fromString("1"),
+          sequence: Long.fromNumber(1),
+          quantity: 1.5,
+        }).success
+      ).toBe(false);
+    });
+
+    it("accepts only subtype 4 binaries for uuid fields", () => {
+      const zod = zodCreateSchema(ledgerSchema);
+      const base = {
+        amount: Decimal128.fromString("1"),
+        sequence: Long.fromNumber(1),
+        quantity: 1,
+      };
+
+      expect(zod.safeParse({ ...base, externalId: new Binary(Buffer.from("abc")) }).success).toBe(
+        false
+      );
+    });
+  });
+
+  describe("GeoJSON fields", () => {
+    const storeSchema = schema("stores", {
+      fields: {
+        location: s.point().required(),
+        area: s.polygon(),
+      },
+    });
+
+    it("validates coordinate ranges of points", () => {
+      const zod = zodCreateSchema(storeSchema);
+
+      expect(
+        zod.safeParse({ location: { type: "Point", coordinates: [-73.98, 40.75] } }).success
+      ).toBe(true);
+      expect(
+        zod.safeParse({ location: { type: "Point", coordinates: [40.75, -200] } }).success
+      ).toBe(false);
+    });
+
+    it("requires polygon rings to be closed", () => {
+      const zod = zodCreateSchema(storeSchema);
+      const location = { type: "Point", coordinates: [0, 0] };
+      const open = [
+        [0, 0],
+        [1, 0],
+        [1, 1],
+        [0, 1],
+      ];
+
+      expect(
+        zod.safeParse({ location, area: { type: "Polygon", coordinates: [open] } }).success
+      ).toBe(false);
+      expect(
+        zod.safeParse({ location, area: { type: "Polygon", coordinates: [[...open, [0, 0]]] } })
+          .success
+      ).toBe(true);
+    });
+
+    it("registers a 2dsphere index automatically", () => {
+      expect(storeSchema.fields.location.index).toEqual({ type: "2dsphere" });
+    });
+  });
+
+  describe("refinements and transforms", () => {
+    const eventSchema = schema("events", {
+      fields: {
+        name: s
+          .string()
+          .transform((value) => value.trim())
+          .refine((value) => value.length > 0, "Name cannot be blank"),
+        startsAt: s.date().required(),
+        endsAt: s.date().required(),
+      },
+      refine: [
+        {
+          check: (doc) => !doc.startsAt || !doc.endsAt || doc.endsAt > doc.startsAt,
+          message: "endsAt must be after startsAt",
+          path: ["endsAt"],
+        },
+      ],
+    });
+    const startsAt = new Date("2024-01-01");
+    const endsAt = new Date("2024-01-02");
+
+    it("runs field transforms before refinements", () => {
+      const result = zodCreateSchema(eventSchema).safeParse({
+        name: "  Launch ",
+        startsAt,
+        endsAt,
+      });
+
+      expect(result.success && result.data.name).toBe("Launch");
+      expect(
+        zodCreateSchema(eventSchema).safeParse({ name: "   ", startsAt, endsAt }).success
+      ).toBe(false);
+    });
+
+    it("checks schema-level refinements on the whole document", () => {
+      const result = zodCreateSchema(eventSchema).safeParse({ startsAt: endsAt, endsAt: startsAt });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]?.path).toEqual(["endsAt"]);
+    });
+
+    it("still validates each field of schemas with refinements", () => {
+      const zod = zodCreateSchema(eventSchema);
+
+      expect(zod.safeParse({ name: "Launch", startsAt: "tomorrow", endsAt }).success).toBe(false);
+      expect(zod.safeParse({ name: "Launch", startsAt }).success).toBe(false);
+    });
+
+    it("skips schema-level refinements for partial updates", () => {
+      const zod = zodUpdateSchema(eventSchema);
+
+      expect(zod.safeParse({ endsAt: startsAt }).success).toBe(true);
+      expect(zod.safeParse({ name: " " }).success).toBe(false);
+    });
+  });
+
+  describe("nullable and optional fields", () => {
+    const profileSchema = schema("profiles", {
+      fields: {
+        bio: s.string().required().nullable(),
+        nickname: s.string().optional(),
+        website: s.string(),
+      },
+    });
+
+    it("requires present-but-nullable fields to be set", () => {
+      const zod = zodCreateSchema(profileSchema);
+
+      expect(zod.safeParse({ bio: null }).success).toBe(true);
+      expect(zod.safeParse({}).success).toBe(false);
+    });
+
+    it("rejects null for optional fields", () => {
+      const zod = zodCreateSchema(profileSchema);
+
+      expect(zod.safeParse({ bio: "hi" }).success).toBe(true);
+      expect(zod.safeParse({ bio: "hi", nickname: null }).success).toBe(false);
+    });
+
+    it("keeps accepting null and missing values for plain fields", () => {
+      const zod = zodCreateSchema(profileSchema);
+
+      expect(zod.safeParse({ bio: "hi", website: null }).success).toBe(true);
+    });
+  });
+
+  describe("update operators", () => {
+    const orderSchema = schema("orders", {
+      fields: {
+        status: s.enum(["open", "paid"]).required(),
+        total: s.number().min(0),
+        address: s.object({ city: s.string().required() }),
+        items: s.array(s.object({ sku: s.string().required(), qty: s.int() })),
+        note: s.string(),
+      },
+    });
+    const check = (update: Record<string, unknown>) =>
+      zodUpdateOperatorsSchema(orderSchema, update).safeParse(update).success;
+
+    it("checks $set values against the field at each path", () => {
+      expect(check({ $set: { status: "paid", "address.city": "Lisbon" } })).toBe(true);
+      expect(check({ $set: { status: "shipped" } })).toBe(false);
+      expect(check({ $set: { "items.$.qty": 1.5 } })).toBe(false);
+    });
+
+    it("only allows $inc and $mul on numeric fields", () => {
+      expect(check({ $inc: { total: 5 } })).toBe(true);
+      expect(check({ $inc: { status: 1 } })).toBe(false);
+      expect(check({ $mul: { total: "2" } })).toBe(false);
+    });
+
+    it("checks $push and $addToSet items against the array item type", () => {
+      expect(check({ $push: { items: { sku: "A1", qty: 2 } } })).toBe(true);
+      expect(check({ $push: { items: { $each: [{ sku: "A1" }], $slice: -10 } } })).toBe(true);
+      expect(check({ $addToSet: { items: { qty: 2 } } })).toBe(false);
+      expect(check({ $push: { note: "x" } })).toBe(false);
+    });
+
+    it("checks $pull and $pullAll values against the array item type", () => {
+      const tagged = schema("posts", { fields: { tags: s.array(s.string()), note: s.string() } });
+      const checkTagged = (update: Record<string, unknown>) =>
+        zodUpdateOperatorsSchema(tagged, update).safeParse(update).success;
+
+      expect(checkTagged({ $pull: { tags: "old" } })).toBe(true);
+      expect(checkTagged({ $pull: { tags: { $in: ["a", "b"] } } })).toBe(true);
+      expect(checkTagged({ $pull: { tags: 42 } })).toBe(false);
+      expect(checkTagged({ $pullAll: { tags: ["a", "b"] } })).toBe(true);
+      expect(checkTagged({ $pullAll: { tags: ["a", 1] } })).toBe(false);
+      expect(checkTagged({ $pull: { note: "x" } })).toBe(false);
+      expect(check({ $pull: { items: { sku: "A1" } } })).toBe(true);
+    });
+
+    it("rejects $unset on required fields", () => {
+      expect(check({ $unset: { note: "" } })).toBe(true);
+      expect(check({ $unset: { status: "" } })).toBe(false);
+    });
+
+    it("passes through paths and operators outside the schema", () => {
+      expect(check({ $set: { updatedAt: new Date() }, $rename: { note: "memo" } })).toBe(true);
+    });
+  });
+});
@@ -5,6 +5,10 @@ export default defineConfig({
     globals: true,
     environment: "node",
     include: ["src/**/*.test.ts", "tests/**/*.test.ts"],
+    typecheck: {
+      enabled: true,
+      tsconfig: "tests/tsconfig.json",
+    },
     coverage: {
       provider: "v8",
       reporter: ["text", "json", "html"],